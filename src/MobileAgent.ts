@@ -4,14 +4,30 @@
 
 import * as fs from "node:fs";
 import type { Browser } from "webdriverio";
-import { AnthropicProvider } from "./llm/AnthropicProvider";
-import type { LLMProvider } from "./llm/LLMProvider";
-import { OpenAIProvider } from "./llm/OpenAIProvider";
+import { DecisionCache } from "./cache/DecisionCache";
+import { BudgetExceededError, NeedInputError, TaskFailedError } from "./errors";
+import { GestureEngine } from "./gestures/GestureEngine";
+import { FailoverProvider } from "./llm/FailoverProvider";
+import { type LLMProvider, isTerminalAction } from "./llm/LLMProvider";
+import { createLLMProvider } from "./llm/registry";
+import { ConversationMemory } from "./memory/ConversationMemory";
 import { UIObserver } from "./observer/UIObserver";
 import {
   type ActionStep,
   ActionType,
+  type AssertionPolicy,
+  type ElementCheck,
+  type ElementLocator,
+  type FailoverConfig,
+  type FailoverProviderSpec,
+  type GoalOptions,
+  type GoalResult,
+  GoalStatus,
+  type LLMActionResponse,
+  type LLMVerificationResponse,
   type MobileAgentConfig,
+  type RetryAttempt,
+  type ScreenArea,
   type TestResult,
   type UIElement,
   type UIState,
@@ -20,16 +36,41 @@ import {
   type VisionFallbackConfig,
   VisionMethod,
 } from "./types";
+import { UsageTracker } from "./usage/UsageTracker";
+import {
+  type ImageRegion,
+  base64ToBuffer,
+  diffImage,
+  getImageSize,
+  pixelDiff,
+} from "./utils/imageProcessor";
 import { LogLevel, logger } from "./utils/logger";
+import { BaselineStore, type MatchScreenshotOptions } from "./visual/BaselineStore";
+
+/**
+ * An action decided for an instruction, before it is performed
+ */
+interface ResolvedAction {
+  actionResponse: LLMActionResponse;
+  targetElement?: UIElement;
+  usedMethod: VisionMethod;
+  replayed?: boolean; // Served from the decision cache
+}
 
 export class MobileAgent {
   private driver: Browser;
   private llm: LLMProvider;
   private observer: UIObserver;
-  private config: Required<MobileAgentConfig>;
+  private gestures: GestureEngine;
+  private config: Required<Omit<MobileAgentConfig, "decisionCache" | "failover" | "memory">>;
   private visionConfig: VisionFallbackConfig;
+  private decisionCache?: DecisionCache;
+  private usage: UsageTracker;
+  private usageTier: string = VisionMethod.HIERARCHY; // Tier that LLM requests are billed to
+  private pendingRetries: RetryAttempt[] = []; // Retried LLM requests not yet attached to a step
   private testResult?: TestResult;
-  private actionHistory: string[] = [];
+  private memory: ConversationMemory;
+  private baselines: BaselineStore;
   private currentState?: UIState;
   private screenshotCounter = 0;
 
@@ -46,17 +87,25 @@ export class MobileAgent {
 
     this.config = {
       driver: config.driver,
-      apiKey: config.apiKey,
+      apiKey: config.apiKey || "",
       llmProvider: config.llmProvider || "openai",
-      model:
-        config.model ||
-        (config.llmProvider === "anthropic" ? "claude-3-5-sonnet-20241022" : "gpt-4o"),
+      llmOptions: config.llmOptions || {},
+      model: config.model || "", // Empty means the provider's default model
       maxSteps: config.maxSteps || 20,
       timeoutSeconds: config.timeoutSeconds || 300,
       verbose: config.verbose !== undefined ? config.verbose : false,
       enableVisionFallback:
         config.enableVisionFallback !== undefined ? config.enableVisionFallback : true,
       visionConfig: { ...defaultVisionConfig, ...config.visionConfig },
+      systemRegions: config.systemRegions || {},
+      screenshotEncoding: config.screenshotEncoding || {},
+      tagOverlay: config.tagOverlay || {},
+      gestures: config.gestures || {},
+      effectDetection: config.effectDetection || {},
+      assertionPolicy: config.assertionPolicy || {},
+      pricing: config.pricing || {},
+      budget: config.budget || {},
+      visualRegression: config.visualRegression || {},
     };
 
     // Set up vision fallback configuration
@@ -81,6 +130,7 @@ export class MobileAgent {
       alwaysUseVision: config.visionConfig?.alwaysUseVision || false,
       preferredMethod: config.visionConfig?.preferredMethod || VisionMethod.HIERARCHY,
       pureVisionOnly: config.visionConfig?.pureVisionOnly || false,
+      zoomRefinement: config.visionConfig?.zoomRefinement,
       pureVisionConfig: {
         enabled:
           config.visionConfig?.pureVisionConfig?.enabled !== undefined
@@ -95,17 +145,49 @@ export class MobileAgent {
     };
 
     this.driver = config.driver;
-    this.observer = new UIObserver();
+    this.observer = new UIObserver(
+      this.config.systemRegions,
+      this.config.screenshotEncoding,
+      this.config.tagOverlay,
+    );
+    this.gestures = new GestureEngine(this.driver, this.config.gestures);
+    this.memory = new ConversationMemory(config.memory);
+    this.baselines = new BaselineStore(this.config.visualRegression.baselineDir);
+
+    if (config.decisionCache) {
+      this.decisionCache =
+        config.decisionCache instanceof DecisionCache
+          ? config.decisionCache
+          : new DecisionCache(config.decisionCache);
+    }
 
-    // Initialize LLM provider
-    if (this.config.llmProvider === "openai") {
-      this.llm = new OpenAIProvider(this.config.apiKey, this.config.model);
-    } else if (this.config.llmProvider === "anthropic") {
-      this.llm = new AnthropicProvider(this.config.apiKey, this.config.model);
-    } else {
-      throw new Error(`Unknown LLM provider: ${this.config.llmProvider}`);
+    // Initialize LLM provider: use a ready-made instance or build one from the registry
+    this.llm =
+      typeof this.config.llmProvider === "string"
+        ? createLLMProvider(this.config.llmProvider, {
+            ...this.config.llmOptions,
+            apiKey: this.config.apiKey || undefined,
+            model: this.config.model || undefined,
+          })
+        : this.config.llmProvider;
+
+    if (config.failover?.providers.length) {
+      this.llm = this.buildFailoverChain(config.failover);
     }
 
+    // Attribute every LLM request to the tier that made it, keeping any existing listener
+    this.usage = new UsageTracker(this.config.pricing);
+    const forwardUsage = this.llm.onUsage;
+    this.llm.onUsage = (usage) => {
+      forwardUsage?.(usage);
+      this.usage.record(usage, this.usageTier);
+    };
+    const forwardRetry = this.llm.onRetry;
+    this.llm.onRetry = (attempt) => {
+      forwardRetry?.(attempt);
+      this.pendingRetries.push(attempt);
+    };
+
     if (this.config.verbose) {
       logger.level = LogLevel.DEBUG;
     }
@@ -113,6 +195,42 @@ export class MobileAgent {
     logger.info("MobileAgent initialized");
   }
 
+  /**
+   * Put llmProvider and the configured fallbacks into one failover chain.
+   * Escalating to the next provider is subject to the LLM budget.
+   */
+  private buildFailoverChain(failover: FailoverConfig): FailoverProvider {
+    const primaryName =
+      typeof this.config.llmProvider === "string" ? this.config.llmProvider : undefined;
+    const entries = [
+      { provider: this.llm, label: this.llm.model || primaryName || "primary" },
+      ...failover.providers.map((entry, i) => {
+        const spec = entry as FailoverProviderSpec;
+        if (typeof spec.provider !== "string") {
+          const provider = entry as LLMProvider;
+          return { provider, label: provider.model || `fallback ${i + 1}` };
+        }
+        const provider = createLLMProvider(spec.provider, {
+          ...spec.options,
+          apiKey:
+            spec.apiKey ??
+            (spec.provider === primaryName ? this.config.apiKey || undefined : undefined),
+          model: spec.model,
+        });
+        return { provider, label: spec.label || provider.model || spec.provider };
+      }),
+    ];
+
+    const chain = new FailoverProvider(
+      entries,
+      failover.confidenceThreshold ?? this.visionConfig.confidenceThreshold ?? 0.7,
+    );
+    chain.onEscalate = (_label, vision) =>
+      this.usage.checkBudget(this.config.budget, vision ? 1 : 0);
+    logger.info(`Provider failover chain: ${entries.map((e) => e.label).join(" → ")}`);
+    return chain;
+  }
+
   /**
    * Start a testing session
    */
@@ -129,10 +247,13 @@ export class MobileAgent {
       logs: [],
       metadata: {},
     };
-    this.actionHistory = [];
+    this.memory.clear();
+    this.usage.reset();
+    this.pendingRetries = [];
+    this.testResult.metadata.usage = this.usage.getReport();
 
     // Get initial state
-    this.currentState = await this.observer.getUIState(this.driver);
+    this.currentState = await this.observe();
     logger.info(`Session started on activity: ${this.currentState.activity}`);
   }
 
@@ -146,51 +267,429 @@ export class MobileAgent {
 
     logger.info(`Executing: ${instruction}`);
     this.testResult.task = instruction;
+    this.memory.startTask(instruction);
+    this.usage.startRun();
 
-    let actionResponse: any;
-    let targetElement: UIElement | undefined;
-    let usedMethod: VisionMethod = VisionMethod.HIERARCHY;
+    try {
+      const { actionResponse, usedMethod, step } = await this.decideAndAct(instruction);
+
+      if (!step) {
+        this.completeWithTerminalAction(actionResponse, usedMethod);
+        return;
+      }
 
+      logger.info(`✓ Action executed successfully using ${usedMethod}`);
+    } catch (error: any) {
+      if (error instanceof TaskFailedError || error instanceof NeedInputError) {
+        throw error; // Already recorded as a terminal step
+      }
+      logger.error("Execution failed:", error);
+      this.recordFailedStep(instruction, error);
+      throw error;
+    } finally {
+      this.usage.endRun();
+    }
+  }
+
+  /**
+   * Pursue a multi-step goal with an observe → decide → act loop.
+   * Stops when the LLM reports the goal as done, the step budget runs out
+   * or the deadline passes. Every iteration is recorded as an ActionStep.
+   * A step still running at the deadline is not waited for.
+   * Throws a BudgetExceededError when an LLM budget cap is reached.
+   */
+  async executeGoal(goal: string, options: GoalOptions = {}): Promise<GoalResult> {
+    if (!this.testResult) {
+      throw new Error("Session not started. Call startSession() first.");
+    }
+
+    const maxSteps = options.maxSteps ?? this.config.maxSteps;
+    const timeoutSeconds = options.timeoutSeconds ?? this.config.timeoutSeconds;
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutSeconds * 1000;
+
+    logger.info(`Executing goal: ${goal} (max ${maxSteps} steps, ${timeoutSeconds}s)`);
+    this.testResult.task = goal;
+    this.memory.startTask(goal);
+
+    const finish = (status: GoalStatus, stepsTaken: number, reason?: string): GoalResult => {
+      const result: GoalResult = {
+        goal,
+        success: status === GoalStatus.COMPLETED,
+        status,
+        stepsTaken,
+        reason,
+        durationSeconds: (Date.now() - startedAt) / 1000,
+      };
+      if (result.success) {
+        logger.info(`✓ Goal completed in ${stepsTaken} step(s)`);
+      } else {
+        logger.warn(`✗ Goal stopped (${status}) after ${stepsTaken} step(s): ${reason}`);
+      }
+      return result;
+    };
+
+    let stepsTaken = 0;
+    this.usage.startRun();
     try {
-      // Check if pure vision only mode is enabled
-      if (this.visionConfig.pureVisionOnly) {
-        logger.info("Pure vision only mode enabled, skipping hierarchy/tagging/grid");
-        actionResponse = await this.tryPureVisionApproach(instruction);
-        usedMethod = VisionMethod.PURE_VISION;
+      while (stepsTaken < maxSteps) {
+        if (Date.now() >= deadline) {
+          return finish(GoalStatus.TIMED_OUT, stepsTaken, `Deadline of ${timeoutSeconds}s passed`);
+        }
 
-        // Re-resolve target element (though pure vision typically uses coordinates)
-        if (actionResponse.elementId) {
-          targetElement = this.currentState?.elements.find(
-            (e) => e.elementId === actionResponse.elementId,
+        stepsTaken++;
+        logger.info(`Goal step ${stepsTaken}/${maxSteps}`);
+
+        try {
+          const outcome = await this.withDeadline(
+            this.decideAndAct(this.buildGoalInstruction(goal)),
+            deadline,
           );
-        } else {
-          targetElement = undefined; // Pure vision uses coordinates, not element IDs
+          if (!outcome) {
+            return finish(
+              GoalStatus.TIMED_OUT,
+              stepsTaken,
+              `Deadline of ${timeoutSeconds}s passed during step ${stepsTaken}`,
+            );
+          }
+          const { actionResponse, usedMethod, step } = outcome;
+
+          if (!step) {
+            this.recordTerminalStep(actionResponse, usedMethod);
+            const reason = actionResponse.reason || actionResponse.reasoning;
+            switch (actionResponse.action) {
+              case ActionType.FAIL:
+                return finish(GoalStatus.FAILED, stepsTaken, reason);
+              case ActionType.NEED_INPUT:
+                return finish(GoalStatus.NEEDS_INPUT, stepsTaken, reason);
+              default:
+                return finish(GoalStatus.COMPLETED, stepsTaken, reason);
+            }
+          }
+
+          if (!step.success) {
+            logger.warn(`Goal step ${stepsTaken} failed: ${step.error}`);
+          } else if (step.ineffective) {
+            logger.warn(`Goal step ${stepsTaken} had no visible effect`);
+          }
+        } catch (error: any) {
+          logger.error("Goal step failed:", error);
+          this.recordFailedStep(goal, error);
+          if (error instanceof BudgetExceededError) {
+            throw error;
+          }
+          return finish(GoalStatus.ERROR, stepsTaken, error.message);
         }
+      }
 
-        logger.info("✓ Pure vision approach succeeded");
-      } else {
-        // Standard four-tier cascading fallback
-        // Try Tier 1: Hierarchy-based approach
-        actionResponse = await this.tryHierarchyApproach(instruction);
-        usedMethod = VisionMethod.HIERARCHY;
+      return finish(
+        GoalStatus.MAX_STEPS_EXCEEDED,
+        stepsTaken,
+        `Step budget of ${maxSteps} used up`,
+      );
+    } finally {
+      this.usage.endRun();
+    }
+  }
 
-        // Find target element
-        if (actionResponse.elementId) {
-          targetElement = this.currentState?.elements.find(
-            (e) => e.elementId === actionResponse.elementId,
-          );
+  /**
+   * Result of a pending operation, or undefined once the deadline passes. The
+   * operation itself cannot be cancelled; a late failure of it is ignored.
+   */
+  private async withDeadline<T>(pending: Promise<T>, deadline: number): Promise<T | undefined> {
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), Math.max(0, deadline - Date.now()));
+    });
+    pending.catch(() => undefined);
+    try {
+      return await Promise.race([pending, expired]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Wrap a goal so the LLM picks a single next step and can report completion
+   */
+  private buildGoalInstruction(goal: string): string {
+    return `${goal}
+
+This is a multi-step goal: choose only the next single action.
+If the goal is already achieved on the current screen, respond with action "done".`;
+  }
+
+  /**
+   * Record a terminal action (done / fail / need_input) as a step
+   */
+  private recordTerminalStep(
+    actionResponse: LLMActionResponse,
+    usedMethod: VisionMethod,
+  ): ActionStep {
+    const done = actionResponse.action === ActionType.DONE;
+    const reason = actionResponse.reason || actionResponse.reasoning;
+    const step: ActionStep = {
+      actionType: actionResponse.action as ActionType,
+      parameters: actionResponse.parameters || {},
+      description: `${this.describeSource(usedMethod, actionResponse)} ${actionResponse.reasoning}`,
+      method: usedMethod,
+      model: actionResponse.models?.slice(-1)[0],
+      reasoning: actionResponse.reasoning,
+      confidence: actionResponse.confidence,
+      timestamp: new Date(),
+      success: done,
+      error: done ? undefined : reason,
+      usage: this.usage.takePending(),
+      retries: this.takeRetries(),
+    };
+    this.testResult?.steps.push(step);
+    this.memory.recordAction(actionResponse, step, this.currentState);
+    return step;
+  }
+
+  /**
+   * Finish a single instruction with a terminal action, raising a typed
+   * error when the LLM reported the task as impossible or blocked
+   */
+  private completeWithTerminalAction(
+    actionResponse: LLMActionResponse,
+    usedMethod: VisionMethod,
+  ): void {
+    const step = this.recordTerminalStep(actionResponse, usedMethod);
+
+    switch (actionResponse.action) {
+      case ActionType.FAIL:
+        logger.warn(`✗ Task reported as impossible: ${step.error}`);
+        throw new TaskFailedError(step.error || "");
+      case ActionType.NEED_INPUT:
+        logger.warn(`✗ Task needs additional input: ${step.error}`);
+        throw new NeedInputError(step.error || "");
+      default:
+        logger.info(`✓ Task already satisfied: ${actionResponse.reasoning}`);
+    }
+  }
+
+  /**
+   * Record a step for an instruction that failed before any action ran
+   */
+  private recordFailedStep(description: string, error: any): void {
+    const failedStep: ActionStep = {
+      actionType: ActionType.CLICK,
+      parameters: {},
+      description,
+      timestamp: new Date(),
+      success: false,
+      error: error.message,
+      usage: this.usage.takePending(),
+      retries: this.takeRetries(),
+    };
+    this.testResult?.steps.push(failedStep);
+  }
+
+  /**
+   * Decide and perform the next action for an instruction. Terminal actions are
+   * returned without a step. With a decision cache, a known screen and
+   * instruction replays the stored decision; a miss or a failed replay asks the
+   * LLM and refreshes the entry.
+   */
+  private async decideAndAct(instruction: string): Promise<ResolvedAction & { step?: ActionStep }> {
+    const cache = this.decisionCache;
+    let screen: UIElement[] | undefined;
+
+    if (cache) {
+      this.currentState = await this.observe("none");
+      screen = this.currentState.elements;
+
+      const cached = cache.get(instruction, screen);
+      if (cached) {
+        logger.info(`Replaying cached ${cached.method} decision: ${cached.response.action}`);
+        const replay: ResolvedAction = {
+          actionResponse: cached.response,
+          targetElement: screen.find((e) => e.elementId === cached.response.elementId),
+          usedMethod: cached.method,
+          replayed: true,
+        };
+        if (isTerminalAction(replay.actionResponse.action)) {
+          return replay;
+        }
+
+        const step = await this.performAction(replay);
+        if (step.success && !(step.ineffective && this.retriesIneffective())) {
+          return { ...replay, step };
         }
+        const problem = step.success ? "no visible effect" : step.error;
+        logger.warn(`Cached decision failed to replay (${problem}), asking the LLM`);
+        cache.delete(instruction, screen);
+      }
+    }
+
+    let outcome: ResolvedAction & { step?: ActionStep } = await this.resolveAction(instruction);
+    if (!isTerminalAction(outcome.actionResponse.action)) {
+      const step = await this.performAction(outcome);
+      outcome = { ...outcome, step };
+      if (step.ineffective && this.retriesIneffective()) {
+        outcome = (await this.retryWithNextTier(instruction, outcome.usedMethod)) ?? outcome;
+      }
+    }
+
+    const { actionResponse, usedMethod, step } = outcome;
+    const succeeded = step ? step.success : actionResponse.action === ActionType.DONE;
+    if (cache && screen && succeeded) {
+      cache.set(instruction, screen, actionResponse, usedMethod);
+    }
+    return outcome;
+  }
+
+  private retriesIneffective(): boolean {
+    const { enabled, retryWithNextTier } = this.config.effectDetection;
+    return enabled === true && retryWithNextTier === true;
+  }
+
+  /**
+   * Decide the same instruction again with the vision tiers after `method`,
+   * one at a time, until an action has a visible effect or the LLM ends the
+   * task. Returns the last attempt, or undefined when no tier was left.
+   */
+  private async retryWithNextTier(
+    instruction: string,
+    method: VisionMethod,
+  ): Promise<(ResolvedAction & { step?: ActionStep }) | undefined> {
+    let last: (ResolvedAction & { step?: ActionStep }) | undefined;
+
+    for (const tier of this.tiersAfter(method)) {
+      logger.warn(`Action had no visible effect, retrying with ${tier}`);
+      let resolved: ResolvedAction;
+      try {
+        resolved = await this.resolveAtTier(instruction, tier);
+      } catch (error: any) {
+        if (error instanceof BudgetExceededError) throw error;
+        logger.warn(`Retry with ${tier} failed: ${error.message}`);
+        continue;
+      }
+      if (isTerminalAction(resolved.actionResponse.action)) {
+        return resolved;
+      }
+
+      const step = await this.performAction(resolved);
+      last = { ...resolved, step };
+      if (!step.ineffective) {
+        return last;
+      }
+    }
+    return last;
+  }
 
-        // Check if we need to fallback to vision
-        const shouldFallback = this.shouldFallbackToVision(actionResponse, targetElement);
+  /**
+   * Vision tiers that follow `method` in the cascade and are enabled
+   */
+  private tiersAfter(method: VisionMethod): VisionMethod[] {
+    if (!this.visionConfig.enabled || this.llm.supportsVision === false) {
+      return [];
+    }
+    const tiers = [
+      VisionMethod.HIERARCHY,
+      VisionMethod.VISION_TAGGING,
+      VisionMethod.GRID_OVERLAY,
+      VisionMethod.PURE_VISION,
+    ].filter(
+      (tier) => tier !== VisionMethod.PURE_VISION || this.visionConfig.pureVisionConfig?.enabled,
+    );
+    return tiers.slice(tiers.indexOf(method) + 1);
+  }
 
-        if (shouldFallback && this.visionConfig.enabled) {
-          logger.warn("Hierarchy approach insufficient, falling back to vision methods");
+  /**
+   * Decide an action with a single tier
+   */
+  private async resolveAtTier(instruction: string, tier: VisionMethod): Promise<ResolvedAction> {
+    let actionResponse: LLMActionResponse;
+    switch (tier) {
+      case VisionMethod.VISION_TAGGING:
+        actionResponse = await this.tryVisionTaggingApproach(instruction);
+        break;
+      case VisionMethod.GRID_OVERLAY:
+        actionResponse = await this.tryGridOverlayApproach(instruction);
+        break;
+      case VisionMethod.PURE_VISION:
+        actionResponse = await this.tryPureVisionApproach(instruction);
+        break;
+      default:
+        actionResponse = await this.tryHierarchyApproach(instruction);
+    }
+
+    const targetElement = actionResponse.elementId
+      ? this.currentState?.elements.find((e) => e.elementId === actionResponse.elementId)
+      : undefined;
+    return { actionResponse, targetElement, usedMethod: tier };
+  }
+
+  /**
+   * Decide the next action for an instruction using the four-tier cascade
+   */
+  private async resolveAction(instruction: string): Promise<ResolvedAction> {
+    let actionResponse: any;
+    let targetElement: UIElement | undefined;
+    let usedMethod: VisionMethod = VisionMethod.HIERARCHY;
 
-          // Try Tier 2: Vision with numeric tagging
+    // Check if pure vision only mode is enabled
+    if (this.visionConfig.pureVisionOnly) {
+      logger.info("Pure vision only mode enabled, skipping hierarchy/tagging/grid");
+      actionResponse = await this.tryPureVisionApproach(instruction);
+      usedMethod = VisionMethod.PURE_VISION;
+
+      // Re-resolve target element (though pure vision typically uses coordinates)
+      if (actionResponse.elementId) {
+        targetElement = this.currentState?.elements.find(
+          (e) => e.elementId === actionResponse.elementId,
+        );
+      } else {
+        targetElement = undefined; // Pure vision uses coordinates, not element IDs
+      }
+
+      logger.info("✓ Pure vision approach succeeded");
+    } else {
+      // Standard four-tier cascading fallback
+      // Try Tier 1: Hierarchy-based approach
+      actionResponse = await this.tryHierarchyApproach(instruction);
+      usedMethod = VisionMethod.HIERARCHY;
+
+      // Find target element
+      if (actionResponse.elementId) {
+        targetElement = this.currentState?.elements.find(
+          (e) => e.elementId === actionResponse.elementId,
+        );
+      }
+
+      // Check if we need to fallback to vision
+      const shouldFallback = this.shouldFallbackToVision(actionResponse, targetElement);
+
+      if (shouldFallback && this.visionConfig.enabled && this.llm.supportsVision === false) {
+        logger.warn("Vision fallback skipped: LLM provider does not support vision");
+      } else if (shouldFallback && this.visionConfig.enabled) {
+        logger.warn("Hierarchy approach insufficient, falling back to vision methods");
+
+        // Try Tier 2: Vision with numeric tagging
+        try {
+          actionResponse = await this.tryVisionTaggingApproach(instruction);
+          usedMethod = VisionMethod.VISION_TAGGING;
+
+          // Re-resolve target element after successful fallback
+          if (actionResponse.elementId) {
+            targetElement = this.currentState?.elements.find(
+              (e) => e.elementId === actionResponse.elementId,
+            );
+          } else {
+            targetElement = undefined; // Vision methods use coordinates, not element IDs
+          }
+
+          logger.info("✓ Vision tagging approach succeeded");
+        } catch (error: any) {
+          if (error instanceof BudgetExceededError) throw error;
+          logger.warn(`Vision tagging failed: ${error.message}, trying grid overlay`);
+
+          // Try Tier 3: Grid overlay
           try {
-            actionResponse = await this.tryVisionTaggingApproach(instruction);
-            usedMethod = VisionMethod.VISION_TAGGING;
+            actionResponse = await this.tryGridOverlayApproach(instruction);
+            usedMethod = VisionMethod.GRID_OVERLAY;
 
             // Re-resolve target element after successful fallback
             if (actionResponse.elementId) {
@@ -198,17 +697,18 @@ export class MobileAgent {
                 (e) => e.elementId === actionResponse.elementId,
               );
             } else {
-              targetElement = undefined; // Vision methods use coordinates, not element IDs
+              targetElement = undefined; // Grid uses coordinates, not element IDs
             }
 
-            logger.info("✓ Vision tagging approach succeeded");
-          } catch (error: any) {
-            logger.warn(`Vision tagging failed: ${error.message}, trying grid overlay`);
+            logger.info("✓ Grid overlay approach succeeded");
+          } catch (gridError: any) {
+            if (gridError instanceof BudgetExceededError) throw gridError;
+            logger.warn(`Grid overlay failed: ${gridError.message}, trying pure vision`);
 
-            // Try Tier 3: Grid overlay
-            try {
-              actionResponse = await this.tryGridOverlayApproach(instruction);
-              usedMethod = VisionMethod.GRID_OVERLAY;
+            // Try Tier 4: Pure vision (last resort)
+            if (this.visionConfig.pureVisionConfig?.enabled) {
+              actionResponse = await this.tryPureVisionApproach(instruction);
+              usedMethod = VisionMethod.PURE_VISION;
 
               // Re-resolve target element after successful fallback
               if (actionResponse.elementId) {
@@ -216,73 +716,148 @@ export class MobileAgent {
                   (e) => e.elementId === actionResponse.elementId,
                 );
               } else {
-                targetElement = undefined; // Grid uses coordinates, not element IDs
+                targetElement = undefined; // Pure vision uses coordinates, not element IDs
               }
 
-              logger.info("✓ Grid overlay approach succeeded");
-            } catch (gridError: any) {
-              logger.warn(`Grid overlay failed: ${gridError.message}, trying pure vision`);
-
-              // Try Tier 4: Pure vision (last resort)
-              if (this.visionConfig.pureVisionConfig?.enabled) {
-                actionResponse = await this.tryPureVisionApproach(instruction);
-                usedMethod = VisionMethod.PURE_VISION;
-
-                // Re-resolve target element after successful fallback
-                if (actionResponse.elementId) {
-                  targetElement = this.currentState?.elements.find(
-                    (e) => e.elementId === actionResponse.elementId,
-                  );
-                } else {
-                  targetElement = undefined; // Pure vision uses coordinates, not element IDs
-                }
-
-                logger.info("✓ Pure vision approach succeeded (Tier 4)");
-              } else {
-                throw gridError; // Rethrow grid error if pure vision disabled
-              }
+              logger.info("✓ Pure vision approach succeeded (Tier 4)");
+            } else {
+              throw gridError; // Rethrow grid error if pure vision disabled
             }
           }
         }
       }
+    }
 
-      logger.debug(`Action determined using ${usedMethod}: ${JSON.stringify(actionResponse)}`);
+    logger.debug(`Action determined using ${usedMethod}: ${JSON.stringify(actionResponse)}`);
+    return { actionResponse, targetElement, usedMethod };
+  }
 
-      // Execute the action
-      const step = await this.executeAction(actionResponse.action as ActionType, targetElement, {
-        ...(actionResponse.parameters || {}),
-        coordinates: actionResponse.coordinates,
-      });
+  /**
+   * Execute a resolved action and record it as a step
+   */
+  private async performAction({
+    actionResponse,
+    targetElement,
+    usedMethod,
+    replayed,
+  }: ResolvedAction): Promise<ActionStep> {
+    const before = this.currentState;
+    const step = await this.executeAction(actionResponse.action as ActionType, targetElement, {
+      ...(actionResponse.parameters || {}),
+      coordinates: actionResponse.coordinates,
+    });
+    if (step.success && before && this.config.effectDetection.enabled === true) {
+      await this.detectEffect(step, before);
+    }
 
-      step.description = `[${usedMethod}] ${actionResponse.reasoning}`;
-      this.testResult.steps.push(step);
-      this.actionHistory.push(`${actionResponse.action} - ${actionResponse.reasoning}`);
+    step.description = `${this.describeSource(usedMethod, actionResponse, replayed)} ${actionResponse.reasoning}`;
+    step.method = usedMethod;
+    step.model = replayed ? undefined : actionResponse.models?.slice(-1)[0];
+    step.reasoning = actionResponse.reasoning;
+    step.confidence = actionResponse.confidence;
+    step.usage = this.usage.takePending();
+    step.retries = this.takeRetries();
+    this.testResult?.steps.push(step);
+    this.memory.recordAction(actionResponse, step, before);
+    return step;
+  }
 
-      logger.info(`✓ Action executed successfully using ${usedMethod}`);
+  /**
+   * Compare the hierarchy and screenshots from before and after an action
+   * (once the UI settled) and flag the step as ineffective when neither
+   * changed. Leaves the step unchecked when there is nothing to compare.
+   */
+  private async detectEffect(step: ActionStep, before: UIState): Promise<void> {
+    let hierarchyChanged: boolean | undefined;
+    try {
+      const after = await this.observe("none");
+      this.currentState = after;
+      if (before.elements.length > 0 || after.elements.length > 0) {
+        hierarchyChanged =
+          DecisionCache.fingerprint(before.elements) !== DecisionCache.fingerprint(after.elements);
+      }
     } catch (error: any) {
-      logger.error("Execution failed:", error);
-      const failedStep: ActionStep = {
-        actionType: ActionType.CLICK,
-        parameters: {},
-        description: instruction,
-        timestamp: new Date(),
-        success: false,
-        error: error.message,
-      };
-      this.testResult.steps.push(failedStep);
-      throw error;
+      logger.debug(`Could not read the hierarchy after the action: ${error.message}`);
+    }
+
+    const { screenshotBefore, screenshotAfter } = step;
+    const screenshotChanged =
+      screenshotBefore && screenshotAfter
+        ? await this.screenshotsDiffer(screenshotBefore, screenshotAfter)
+        : undefined;
+    if (hierarchyChanged === undefined && screenshotChanged === undefined) {
+      return;
+    }
+
+    step.screenChanged = Boolean(hierarchyChanged || screenshotChanged);
+    if (!step.screenChanged) {
+      step.ineffective = true;
+      logger.warn(`Action ${step.actionType} had no visible effect`);
+    }
+  }
+
+  /**
+   * Whether more than `minScreenshotDiff` of the pixels changed between two
+   * screenshots; any byte difference counts when they can't be decoded
+   */
+  private async screenshotsDiffer(before: string, after: string): Promise<boolean> {
+    if (before === after) return false;
+    try {
+      const { diffRatio } = await pixelDiff(before, after);
+      return diffRatio > (this.config.effectDetection.minScreenshotDiff ?? 0.001);
+    } catch (error: any) {
+      logger.debug(`Could not compare the screenshots: ${error.message}`);
+      return true;
     }
   }
 
+  /**
+   * Bill the next LLM request to a tier, refusing it when it would go over
+   * the session or per-execute budget
+   */
+  private beginLLMRequest(tier: string, images = 0): void {
+    this.usage.checkBudget(this.config.budget, images);
+    this.usageTier = tier;
+  }
+
+  /**
+   * Description prefix naming the tier and, for replays, the cache or, with a
+   * failover chain, the providers tried: "[hierarchy, gpt-4o-mini → gpt-4o]"
+   */
+  private describeSource(
+    usedMethod: VisionMethod,
+    actionResponse: LLMActionResponse,
+    replayed?: boolean,
+  ): string {
+    const parts: string[] = [usedMethod];
+    if (replayed) {
+      parts.push("cached");
+    } else if (actionResponse.models?.length) {
+      parts.push(actionResponse.models.join(" → "));
+    }
+    return `[${parts.join(", ")}]`;
+  }
+
+  /**
+   * Retried LLM requests since the last call, or undefined when there were none
+   */
+  private takeRetries(): RetryAttempt[] | undefined {
+    if (this.pendingRetries.length === 0) return undefined;
+    const retries = this.pendingRetries;
+    this.pendingRetries = [];
+    return retries;
+  }
+
   /**
    * Try hierarchy-based approach (Tier 1)
    */
   private async tryHierarchyApproach(instruction: string) {
-    this.currentState = await this.observer.getUIState(this.driver, "none");
+    this.beginLLMRequest(VisionMethod.HIERARCHY);
+    this.currentState = await this.observe("none");
     const actionResponse = await this.llm.generateAction(
       this.currentState,
       instruction,
-      this.actionHistory,
+      this.memory,
     );
     actionResponse.method = VisionMethod.HIERARCHY;
     return actionResponse;
@@ -292,11 +867,12 @@ export class MobileAgent {
    * Try vision with numeric tagging (Tier 2)
    */
   private async tryVisionTaggingApproach(instruction: string) {
-    this.currentState = await this.observer.getUIState(this.driver, "tagged");
+    this.beginLLMRequest(VisionMethod.VISION_TAGGING, 1);
+    this.currentState = await this.observe("tagged");
     const actionResponse = await this.llm.generateActionWithVisionTagging(
       this.currentState,
       instruction,
-      this.actionHistory,
+      this.memory,
     );
     return actionResponse;
   }
@@ -305,28 +881,29 @@ export class MobileAgent {
    * Try grid overlay approach (Tier 3)
    */
   private async tryGridOverlayApproach(instruction: string) {
-    this.currentState = await this.observer.getUIState(
-      this.driver,
-      "grid",
-      this.visionConfig.gridSize,
-    );
+    this.beginLLMRequest(VisionMethod.GRID_OVERLAY, 1);
+    this.currentState = await this.observe("grid", this.visionConfig.gridSize);
     const actionResponse = await this.llm.generateActionWithGridOverlay(
       this.currentState,
       instruction,
-      this.actionHistory,
+      this.memory,
     );
+    await this.refineCoordinates(instruction, actionResponse, VisionMethod.GRID_OVERLAY);
     return actionResponse;
   }
 
   private async tryPureVisionApproach(instruction: string) {
+    this.beginLLMRequest(VisionMethod.PURE_VISION, 1);
     // Update current state (for consistency with other tiers, even though pure vision doesn't use hierarchy)
-    this.currentState = await this.observer.getUIState(this.driver, "screenshot");
+    this.currentState = await this.observe("screenshot");
 
     // Capture raw screenshot without overlays
     const screenshotBase64 =
       this.currentState.screenshotBase64 ||
       (await this.observer.captureScreenshotAsBase64(this.driver));
     const windowSize = await this.driver.getWindowSize();
+    // With system UI cropped off, the screenshot only shows part of the window
+    const viewport = this.currentState.screenshotViewport || { x: 0, y: 0, ...windowSize };
 
     // Check minimum confidence requirement
     const minConfidence = this.visionConfig.pureVisionConfig?.minimumConfidence || 0.5;
@@ -334,9 +911,15 @@ export class MobileAgent {
     const actionResponse = await this.llm.generateActionWithPureVision(
       screenshotBase64,
       instruction,
-      windowSize,
-      this.actionHistory,
+      { width: Math.round(viewport.width), height: Math.round(viewport.height) },
+      this.memory,
     );
+    if (actionResponse.coordinates) {
+      actionResponse.coordinates = {
+        x: Math.floor(actionResponse.coordinates.x + viewport.x),
+        y: Math.floor(actionResponse.coordinates.y + viewport.y),
+      };
+    }
 
     // Validate confidence
     if (actionResponse.confidence && actionResponse.confidence < minConfidence) {
@@ -345,6 +928,8 @@ export class MobileAgent {
       );
     }
 
+    await this.refineCoordinates(instruction, actionResponse, VisionMethod.PURE_VISION);
+
     logger.debug(
       `Pure vision located element "${actionResponse.element}" at ` +
         `${actionResponse.location?.x_percent}%, ${actionResponse.location?.y_percent}% ` +
@@ -354,6 +939,71 @@ export class MobileAgent {
     return actionResponse;
   }
 
+  /**
+   * Zoom in around a coarse grid or pure-vision pick and let the LLM pick the
+   * exact target on a finer grid, once per configured step. Keeps the last
+   * point the model placed with enough confidence.
+   */
+  private async refineCoordinates(
+    instruction: string,
+    response: LLMActionResponse,
+    tier: VisionMethod,
+  ): Promise<void> {
+    const options = this.visionConfig.zoomRefinement;
+    const refineTarget = this.llm.refineTarget?.bind(this.llm);
+    if (
+      !options?.enabled ||
+      !refineTarget ||
+      !response.coordinates ||
+      isTerminalAction(response.action)
+    ) {
+      return;
+    }
+
+    const target = response.element || response.gridPosition || response.reasoning;
+    let point = response.coordinates;
+    let within: ScreenArea | undefined;
+    for (let step = 1; step <= (options.steps ?? 1); step++) {
+      try {
+        this.beginLLMRequest(tier, 1);
+        const view = await this.observer.captureZoomedGrid(this.driver, point, {
+          zoom: options.zoom,
+          gridSize: options.gridSize,
+          within,
+        });
+        const refined = await refineTarget(
+          {
+            ...(this.currentState as UIState),
+            screenshotBase64: view.screenshotBase64,
+            gridMap: view.gridMap,
+            tagMapping: undefined,
+          },
+          instruction,
+          target,
+          this.memory,
+        );
+        if (
+          !refined.found ||
+          !refined.coordinates ||
+          refined.confidence < (options.minConfidence ?? 0.5)
+        ) {
+          logger.debug(`Zoom step ${step} kept (${point.x}, ${point.y}): ${refined.reasoning}`);
+          break;
+        }
+        logger.debug(
+          `Zoom step ${step} refined (${point.x}, ${point.y}) to ${refined.gridPosition} (${refined.coordinates.x}, ${refined.coordinates.y})`,
+        );
+        point = refined.coordinates;
+        within = view.area;
+      } catch (error: any) {
+        if (error instanceof BudgetExceededError) throw error;
+        logger.warn(`Zoom refinement failed, keeping the coarse point: ${error.message}`);
+        break;
+      }
+    }
+    response.coordinates = point;
+  }
+
   /**
    * Determine if we should fallback to vision-based approach
    */
@@ -393,47 +1043,75 @@ export class MobileAgent {
    * Assert/verify a condition using natural language
    */
   async assert(condition: string): Promise<boolean> {
+    const verification = await this.assertDetailed(condition);
+    return verification.status === VerificationStatus.PASSED;
+  }
+
+  /**
+   * Verify a condition and return the full verdict: sub-assertions, issues,
+   * confidence, cited evidence elements and a screenshot of the screen.
+   * A pass below the policy's minimum confidence is reported as inconclusive.
+   */
+  async assertDetailed(
+    condition: string,
+    policy: AssertionPolicy = {},
+  ): Promise<VerificationPoint> {
     if (!this.testResult) {
       throw new Error("Session not started. Call startSession() first.");
     }
 
+    const effectivePolicy = { ...this.config.assertionPolicy, ...policy };
+    const { minConfidence = 0 } = effectivePolicy;
     logger.info(`Verifying: ${condition}`);
 
+    let verification: VerificationPoint;
+    let budgetError: BudgetExceededError | undefined;
     try {
-      // Get current UI state
-      this.currentState = await this.observer.getUIState(this.driver);
-
-      // Query LLM for verification
-      const verificationResponse = await this.llm.verifyCondition(
-        this.currentState,
+      const { response: verificationResponse, screenshot } = await this.runVerification(
         condition,
-        this.actionHistory,
+        effectivePolicy,
       );
+      const elements = this.currentState?.elements || [];
 
       logger.debug(`Verification result: ${JSON.stringify(verificationResponse)}`);
 
-      const verification: VerificationPoint = {
+      const { passed, confidence } = verificationResponse;
+      const issues = verificationResponse.issues || [];
+      let status = passed ? VerificationStatus.PASSED : VerificationStatus.FAILED;
+      if (passed && confidence < minConfidence) {
+        status = VerificationStatus.INCONCLUSIVE;
+        issues.push(`Confidence ${confidence} is below the minimum of ${minConfidence}`);
+      }
+
+      verification = {
         name: condition,
         description: condition,
         assertionType: "llm_verification",
         expectedValue: true,
-        actualValue: verificationResponse.passed,
-        status: verificationResponse.passed ? VerificationStatus.PASSED : VerificationStatus.FAILED,
-        errorMessage: verificationResponse.issues?.join(", "),
+        actualValue: passed,
+        status,
+        errorMessage: issues.length > 0 ? issues.join(", ") : undefined,
+        assertions: verificationResponse.assertions || [],
+        issues,
+        confidence,
+        evidence: (verificationResponse.evidence || [])
+          .map((id) => elements.find((e) => e.elementId === id))
+          .filter((e): e is UIElement => e !== undefined),
+        screenshot,
+        method: verificationResponse.method,
       };
 
-      this.testResult.verificationResults.push(verification);
-
-      if (verificationResponse.passed) {
+      if (status === VerificationStatus.PASSED) {
         logger.info(`✓ Assertion passed: ${condition}`);
+      } else if (status === VerificationStatus.INCONCLUSIVE) {
+        logger.warn(`? Assertion inconclusive (confidence ${confidence}): ${condition}`);
       } else {
         logger.warn(`✗ Assertion failed: ${condition}`);
       }
-
-      return verificationResponse.passed;
     } catch (error: any) {
       logger.error("Assertion failed:", error);
-      const verification: VerificationPoint = {
+      if (error instanceof BudgetExceededError) budgetError = error;
+      verification = {
         name: condition,
         description: condition,
         assertionType: "llm_verification",
@@ -442,8 +1120,319 @@ export class MobileAgent {
         status: VerificationStatus.ERROR,
         errorMessage: error.message,
       };
-      this.testResult.verificationResults.push(verification);
-      return false;
+    }
+
+    verification.usage = this.usage.takePending();
+    verification.retries = this.takeRetries();
+    this.testResult.verificationResults.push(verification);
+    this.memory.recordVerification(verification);
+    if (budgetError) {
+      throw budgetError; // Recorded, but the session must stop
+    }
+    return verification;
+  }
+
+  /**
+   * Check a condition against the hierarchy, falling back to the screenshot
+   * when the hierarchy is sparse or the verdict's confidence is low
+   */
+  private async runVerification(
+    condition: string,
+    policy: AssertionPolicy,
+  ): Promise<{ response: LLMVerificationResponse; screenshot?: string }> {
+    const {
+      mode = "hierarchy",
+      visionConfidenceThreshold = this.visionConfig.confidenceThreshold ?? 0.7,
+      sparseHierarchyThreshold = 3,
+      captureScreenshot = true,
+    } = policy;
+
+    if (mode === "vision") {
+      return this.verifyWithVision(condition, policy);
+    }
+
+    const fallbackAllowed =
+      mode === "auto" &&
+      this.visionConfig.enabled &&
+      this.llm.supportsVision !== false &&
+      this.llm.verifyConditionWithVision !== undefined;
+
+    this.currentState = await this.observe();
+    const visibleCount = this.currentState.elements.filter((e) => e.visible).length;
+
+    if (fallbackAllowed && visibleCount < sparseHierarchyThreshold) {
+      logger.info(`Hierarchy is sparse (${visibleCount} visible elements), verifying with vision`);
+      try {
+        return await this.verifyWithVision(condition, policy);
+      } catch (error: any) {
+        if (error instanceof BudgetExceededError) throw error;
+        logger.warn(`Vision verification failed: ${error.message}, using the hierarchy`);
+        this.currentState = await this.observe();
+      }
+    }
+
+    const screenshot = captureScreenshot ? await this.tryCaptureScreenshot() : undefined;
+    this.beginLLMRequest("verification");
+    const response = await this.llm.verifyCondition(this.currentState, condition, this.memory);
+
+    if (fallbackAllowed && response.confidence < visionConfidenceThreshold) {
+      logger.warn(
+        `Hierarchy verification confidence ${response.confidence} is low, verifying with vision`,
+      );
+      try {
+        return await this.verifyWithVision(condition, policy);
+      } catch (error: any) {
+        if (error instanceof BudgetExceededError) throw error;
+        logger.warn(`Vision verification failed: ${error.message}, keeping the hierarchy verdict`);
+      }
+    }
+
+    return { response, screenshot };
+  }
+
+  /**
+   * Check a condition against a (numerically tagged) screenshot
+   */
+  private async verifyWithVision(
+    condition: string,
+    policy: AssertionPolicy,
+  ): Promise<{ response: LLMVerificationResponse; screenshot?: string }> {
+    const { tagScreenshot = true, captureScreenshot = true } = policy;
+    const verifyConditionWithVision = this.llm.verifyConditionWithVision?.bind(this.llm);
+    if (!verifyConditionWithVision) {
+      throw new Error("The LLM provider does not implement verifyConditionWithVision");
+    }
+    this.currentState = await this.observe(tagScreenshot ? "tagged" : "screenshot");
+    this.beginLLMRequest("vision-verification", 1);
+    const response = await verifyConditionWithVision(this.currentState, condition, this.memory);
+    return {
+      response,
+      screenshot: captureScreenshot ? this.currentState.screenshotBase64 : undefined,
+    };
+  }
+
+  /**
+   * Capture a screenshot for the record, ignoring failures
+   */
+  private async tryCaptureScreenshot(): Promise<string | undefined> {
+    try {
+      return await this.observer.captureScreenshotAsBase64(this.driver);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check elements matching a locator directly against the UI hierarchy,
+   * without an LLM call. `expected` defaults to true, or to 1 for "count".
+   * "visible", "enabled" and "checked" look at the first matching element.
+   * A missing element is not visible, so it passes a "visible" / false check;
+   * "enabled" and "checked" fail on a missing element whatever is expected.
+   */
+  async assertElement(
+    locator: ElementLocator,
+    check: ElementCheck = "exists",
+    expected: boolean | number = check === "count" ? 1 : true,
+  ): Promise<VerificationPoint> {
+    if (!this.testResult) {
+      throw new Error("Session not started. Call startSession() first.");
+    }
+
+    const target = Object.entries(locator)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${JSON.stringify(value)}`)
+      .join(", ");
+    let name = `element [${target}] ${expected ? "is" : "is not"} ${check}`;
+    if (check === "count") {
+      name = `count of element [${target}] is ${expected}`;
+    } else if (check === "exists") {
+      name = `element [${target}] ${expected ? "exists" : "does not exist"}`;
+    }
+    logger.info(`Verifying: ${name}`);
+
+    const verification: VerificationPoint = {
+      name,
+      description: name,
+      assertionType: "locator",
+      expectedValue: expected,
+      status: VerificationStatus.ERROR,
+    };
+
+    try {
+      if (!target) {
+        throw new Error("Element locator needs at least one field");
+      }
+
+      this.currentState = await this.observe();
+      const matches = this.observer.findElements(this.currentState.elements, locator);
+      const first = matches[0];
+
+      let actual: boolean | number | undefined;
+      if (check === "count") {
+        actual = matches.length;
+      } else if (check === "exists" || (check === "visible" && !first)) {
+        actual = matches.length > 0;
+      } else {
+        actual = first?.[check];
+      }
+
+      verification.actualValue = actual;
+      verification.evidence = matches;
+      if (actual === expected) {
+        verification.status = VerificationStatus.PASSED;
+        logger.info(`✓ Assertion passed: ${name}`);
+      } else {
+        verification.status = VerificationStatus.FAILED;
+        verification.errorMessage =
+          !first && check !== "exists" && check !== "count"
+            ? `No element matches [${target}]`
+            : `Expected ${check} to be ${expected}, got ${actual}`;
+        logger.warn(`✗ Assertion failed: ${name} (${verification.errorMessage})`);
+      }
+    } catch (error: any) {
+      logger.error("Assertion failed:", error);
+      verification.errorMessage = error.message;
+    }
+
+    this.testResult.verificationResults.push(verification);
+    this.memory.recordVerification(verification);
+    return verification;
+  }
+
+  /**
+   * Compare the current screen with the stored baseline of the same name.
+   * The first run (or `updateBaseline`) records the baseline and passes.
+   * Ignored regions and masked elements are left out of the comparison; on a
+   * mismatch the baseline, actual and diff PNGs go to the artifacts directory.
+   */
+  async matchScreenshot(
+    name: string,
+    options: MatchScreenshotOptions = {},
+  ): Promise<VerificationPoint> {
+    if (!this.testResult) {
+      throw new Error("Session not started. Call startSession() first.");
+    }
+
+    const defaults = this.config.visualRegression;
+    const threshold = options.threshold ?? defaults.threshold ?? 0.1;
+    const maxDiffRatio = options.maxDiffRatio ?? defaults.maxDiffRatio ?? 0.001;
+    const description = `screen matches baseline "${name}"`;
+    logger.info(`Verifying: ${description}`);
+
+    const verification: VerificationPoint = {
+      name: description,
+      description,
+      assertionType: "screenshot",
+      expectedValue: `at most ${formatPercent(maxDiffRatio)} of pixels differ`,
+      status: VerificationStatus.ERROR,
+    };
+
+    try {
+      const screenshot = await this.observer.captureScreenshotAsBase64(this.driver);
+      verification.screenshot = screenshot;
+      const baseline = this.baselines.load(name);
+
+      if (!baseline || options.updateBaseline || defaults.updateBaselines) {
+        const file = this.baselines.save(name, base64ToBuffer(screenshot));
+        verification.actualValue = "baseline recorded";
+        verification.status = VerificationStatus.PASSED;
+        logger.info(`✓ Recorded baseline "${name}" at ${file}`);
+      } else {
+        const expectedSize = await getImageSize(baseline);
+        const actualSize = await getImageSize(screenshot);
+        if (expectedSize.width !== actualSize.width || expectedSize.height !== actualSize.height) {
+          throw new Error(
+            `Screenshot is ${actualSize.width}x${actualSize.height}, the baseline ${expectedSize.width}x${expectedSize.height}`,
+          );
+        }
+
+        const ignoreRegions = [
+          ...(options.ignoreRegions || []),
+          ...(await this.maskRegions(actualSize, options.mask || [])),
+        ];
+        const { image, result } = await diffImage(baseline, screenshot, {
+          threshold,
+          ignoreRegions,
+        });
+        verification.actualValue = result.diffRatio;
+
+        if (result.diffRatio <= maxDiffRatio) {
+          verification.status = VerificationStatus.PASSED;
+          logger.info(`✓ Assertion passed: ${description}`);
+        } else {
+          const region = result.changedRegion as ImageRegion;
+          verification.status = VerificationStatus.FAILED;
+          verification.errorMessage = `${result.diffPixels} of ${result.totalPixels} pixels differ (${formatPercent(result.diffRatio)}) within [${region.x1},${region.y1}][${region.x2},${region.y2}]`;
+          logger.warn(`✗ Assertion failed: ${description} (${verification.errorMessage})`);
+          this.persistMismatch(name, baseline, screenshot, image);
+        }
+      }
+    } catch (error: any) {
+      logger.error("Screenshot match failed:", error);
+      verification.errorMessage = error.message;
+    }
+
+    this.testResult.verificationResults.push(verification);
+    this.memory.recordVerification(verification);
+    return verification;
+  }
+
+  /**
+   * Screenshot regions covered by the elements matching the locators. Element
+   * bounds are in window points, so they are scaled to screenshot pixels.
+   */
+  private async maskRegions(
+    screenshotSize: { width: number; height: number },
+    locators: ElementLocator[],
+  ): Promise<ImageRegion[]> {
+    if (locators.length === 0) return [];
+
+    this.currentState = await this.observe("none");
+    const windowSize = await this.driver.getWindowSize();
+    const scaleX = screenshotSize.width / windowSize.width;
+    const scaleY = screenshotSize.height / windowSize.height;
+
+    const regions: ImageRegion[] = [];
+    for (const locator of locators) {
+      const matches = this.observer.findElements(this.currentState.elements, locator);
+      if (matches.length === 0) {
+        logger.warn(`No element to mask matches ${JSON.stringify(locator)}`);
+      }
+      for (const { bounds } of matches) {
+        if (!bounds) continue;
+        regions.push({
+          x1: Math.floor(bounds.x1 * scaleX),
+          y1: Math.floor(bounds.y1 * scaleY),
+          x2: Math.ceil(bounds.x2 * scaleX),
+          y2: Math.ceil(bounds.y2 * scaleY),
+        });
+      }
+    }
+    return regions;
+  }
+
+  /**
+   * Write the baseline, actual and diff images of a failed screenshot match
+   * to the artifacts directory, if one is configured
+   */
+  private persistMismatch(name: string, baseline: Buffer, actual: string, diff: string): void {
+    const dir = this.config.visualRegression.artifactsDir || process.env.ARTIFACTS_DIR;
+    if (!dir) return;
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      const prefix = `${dir}/${BaselineStore.fileName(name)}`;
+      const files: Array<[string, Buffer]> = [
+        [`${prefix}.baseline.png`, baseline],
+        [`${prefix}.actual.png`, base64ToBuffer(actual)],
+        [`${prefix}.diff.png`, base64ToBuffer(diff)],
+      ];
+      for (const [file, png] of files) {
+        fs.writeFileSync(file, png);
+        this.testResult?.screenshots.push(file);
+      }
+      logger.info(`Wrote screenshot diff of "${name}" to ${prefix}.diff.png`);
+    } catch (error) {
+      logger.warn("Failed to write screenshot diff artifacts:", error);
     }
   }
 
@@ -452,10 +1441,12 @@ export class MobileAgent {
    */
   private async verifyConditionOneShot(condition: string): Promise<boolean> {
     try {
-      this.currentState = await this.observer.getUIState(this.driver);
-      const res = await this.llm.verifyCondition(this.currentState, condition, this.actionHistory);
+      this.currentState = await this.observe();
+      this.beginLLMRequest("verification");
+      const res = await this.llm.verifyCondition(this.currentState, condition, this.memory);
       return Boolean(res.passed);
-    } catch {
+    } catch (error) {
+      if (error instanceof BudgetExceededError) throw error;
       return false;
     }
   }
@@ -509,10 +1500,53 @@ export class MobileAgent {
     logger.info(`Session completed in ${this.testResult.durationSeconds.toFixed(1)}s`);
     logger.info(`Total steps: ${this.testResult.steps.length}`);
     logger.info(`Verifications: ${this.testResult.verificationResults.length}`);
+    const { total } = this.usage.getReport();
+    if (total.calls > 0) {
+      logger.info(
+        `LLM usage: ${total.calls} calls, ${total.inputTokens} input / ${total.outputTokens} output tokens, ~$${total.estimatedCostUsd.toFixed(4)}`,
+      );
+    }
+
+    this.saveDecisionCache();
 
     return this.testResult;
   }
 
+  /**
+   * Persist the decision cache when it is backed by a file
+   */
+  private saveDecisionCache(): void {
+    if (!this.decisionCache?.path) return;
+    try {
+      this.decisionCache.save();
+      logger.info(
+        `Saved ${this.decisionCache.size} cached decisions to ${this.decisionCache.path}`,
+      );
+    } catch (error) {
+      logger.warn("Failed to save decision cache:", error);
+    }
+  }
+
+  /**
+   * Read the screen, letting the conversation memory note whether the last
+   * action changed it
+   */
+  private async observe(
+    captureMode?: "none" | "screenshot" | "tagged" | "grid",
+    gridSize?: number,
+  ): Promise<UIState> {
+    const state = await this.observer.getUIState(this.driver, captureMode, gridSize);
+    this.memory.observe(state);
+    return state;
+  }
+
+  /**
+   * Conversation memory replayed to the LLM: actions, outcomes and verdicts
+   */
+  getMemory(): ConversationMemory {
+    return this.memory;
+  }
+
   /**
    * Get current UI state
    */
@@ -605,6 +1639,27 @@ export class MobileAgent {
     return step;
   }
 
+  /**
+   * Resolve the point a gesture should target from coordinates or element bounds
+   */
+  private resolveTarget(
+    gesture: string,
+    element?: UIElement,
+    coordinates?: { x: number; y: number },
+  ): { x: number; y: number } {
+    if (coordinates) {
+      return coordinates;
+    }
+    if (!element) {
+      throw new Error(`No element or coordinates to ${gesture}`);
+    }
+    const center = this.observer.getElementCenter(element);
+    if (!center) {
+      throw new Error("Element has no bounds");
+    }
+    return center;
+  }
+
   /**
    * Click on an element or coordinates
    */
@@ -612,27 +1667,10 @@ export class MobileAgent {
     element?: UIElement,
     coordinates?: { x: number; y: number },
   ): Promise<void> {
-    let targetCoords = coordinates;
-
-    // If no coordinates provided, get from element
-    if (!targetCoords) {
-      if (!element) {
-        throw new Error("No element or coordinates to click");
-      }
-
-      const center = this.observer.getElementCenter(element);
-      if (!center) {
-        throw new Error("Element has no bounds");
-      }
-      targetCoords = center;
-    }
+    const targetCoords = this.resolveTarget("click", element, coordinates);
 
     logger.debug(`Clicking at (${targetCoords.x}, ${targetCoords.y})`);
-    await this.driver.touchAction({
-      action: "tap",
-      x: targetCoords.x,
-      y: targetCoords.y,
-    });
+    await this.gestures.tap(targetCoords);
 
     // Wait for UI to settle rather than fixed sleep
     await this.waitForUiSettle(1200);
@@ -691,12 +1729,7 @@ export class MobileAgent {
     }
 
     logger.debug(`Swiping ${direction}: (${startX},${startY}) -> (${endX},${endY})`);
-    await this.driver.touchAction([
-      { action: "press", x: startX, y: startY },
-      { action: "wait", ms: 100 },
-      { action: "moveTo", x: endX, y: endY },
-      { action: "release" },
-    ]);
+    await this.gestures.swipe({ x: startX, y: startY }, { x: endX, y: endY });
 
     await this.waitForUiSettle(1000);
   }
@@ -715,27 +1748,10 @@ export class MobileAgent {
     element?: UIElement,
     coordinates?: { x: number; y: number },
   ): Promise<void> {
-    let targetCoords = coordinates;
-
-    // If no coordinates provided, get from element
-    if (!targetCoords) {
-      if (!element) {
-        throw new Error("No element or coordinates to long press");
-      }
-
-      const center = this.observer.getElementCenter(element);
-      if (!center) {
-        throw new Error("Element has no bounds");
-      }
-      targetCoords = center;
-    }
+    const targetCoords = this.resolveTarget("long press", element, coordinates);
 
     logger.debug(`Long pressing at (${targetCoords.x}, ${targetCoords.y})`);
-    await this.driver.touchAction([
-      { action: "press", x: targetCoords.x, y: targetCoords.y },
-      { action: "wait", ms: 1000 },
-      { action: "release" },
-    ]);
+    await this.gestures.longPress(targetCoords);
 
     await this.driver.pause(500);
   }
@@ -747,17 +1763,9 @@ export class MobileAgent {
     element?: UIElement,
     coordinates?: { x: number; y: number },
   ): Promise<void> {
-    let targetCoords = coordinates;
-    if (!targetCoords) {
-      if (!element) throw new Error("No element or coordinates to double tap");
-      const center = this.observer.getElementCenter(element);
-      if (!center) throw new Error("Element has no bounds");
-      targetCoords = center;
-    }
+    const targetCoords = this.resolveTarget("double tap", element, coordinates);
 
-    await this.driver.touchAction({ action: "tap", x: targetCoords.x, y: targetCoords.y });
-    await this.driver.pause(75);
-    await this.driver.touchAction({ action: "tap", x: targetCoords.x, y: targetCoords.y });
+    await this.gestures.doubleTap(targetCoords);
     await this.waitForUiSettle(800);
   }
 
@@ -768,42 +1776,7 @@ export class MobileAgent {
     const center = coordinates || (element ? this.observer.getElementCenter(element) : undefined);
     if (!center) throw new Error("No target for pinch gesture");
 
-    const startOffset = 100; // pixels from center
-    const duration = 250;
-
-    const finger1Start = { x: center.x - startOffset, y: center.y };
-    const finger1End = { x: center.x - 10, y: center.y };
-    const finger2Start = { x: center.x + startOffset, y: center.y };
-    const finger2End = { x: center.x + 10, y: center.y };
-
-    await this.driver.performActions([
-      {
-        type: "pointer",
-        id: "finger1",
-        parameters: { pointerType: "touch" },
-        actions: [
-          { type: "pointerMove", duration: 0, x: finger1Start.x, y: finger1Start.y },
-          { type: "pointerDown", button: 0 },
-          { type: "pause", duration: 50 },
-          { type: "pointerMove", duration, x: finger1End.x, y: finger1End.y },
-          { type: "pointerUp", button: 0 },
-        ],
-      },
-      {
-        type: "pointer",
-        id: "finger2",
-        parameters: { pointerType: "touch" },
-        actions: [
-          { type: "pointerMove", duration: 0, x: finger2Start.x, y: finger2Start.y },
-          { type: "pointerDown", button: 0 },
-          { type: "pause", duration: 50 },
-          { type: "pointerMove", duration, x: finger2End.x, y: finger2End.y },
-          { type: "pointerUp", button: 0 },
-        ],
-      },
-    ] as any);
-
-    await this.driver.releaseActions();
+    await this.gestures.pinch(center);
     await this.waitForUiSettle(800);
   }
 
@@ -814,42 +1787,7 @@ export class MobileAgent {
     const center = coordinates || (element ? this.observer.getElementCenter(element) : undefined);
     if (!center) throw new Error("No target for zoom gesture");
 
-    const endOffset = 100; // pixels from center
-    const duration = 250;
-
-    const finger1Start = { x: center.x - 10, y: center.y };
-    const finger1End = { x: center.x - endOffset, y: center.y };
-    const finger2Start = { x: center.x + 10, y: center.y };
-    const finger2End = { x: center.x + endOffset, y: center.y };
-
-    await this.driver.performActions([
-      {
-        type: "pointer",
-        id: "finger1",
-        parameters: { pointerType: "touch" },
-        actions: [
-          { type: "pointerMove", duration: 0, x: finger1Start.x, y: finger1Start.y },
-          { type: "pointerDown", button: 0 },
-          { type: "pause", duration: 50 },
-          { type: "pointerMove", duration, x: finger1End.x, y: finger1End.y },
-          { type: "pointerUp", button: 0 },
-        ],
-      },
-      {
-        type: "pointer",
-        id: "finger2",
-        parameters: { pointerType: "touch" },
-        actions: [
-          { type: "pointerMove", duration: 0, x: finger2Start.x, y: finger2Start.y },
-          { type: "pointerDown", button: 0 },
-          { type: "pause", duration: 50 },
-          { type: "pointerMove", duration, x: finger2End.x, y: finger2End.y },
-          { type: "pointerUp", button: 0 },
-        ],
-      },
-    ] as any);
-
-    await this.driver.releaseActions();
+    await this.gestures.zoom(center);
     await this.waitForUiSettle(800);
   }
 
@@ -903,3 +1841,10 @@ export class MobileAgent {
     }
   }
 }
+
+/**
+ * Ratio as a percentage with up to two decimals: 0.00125 → "0.13%"
+ */
+function formatPercent(ratio: number): string {
+  return `${Number((ratio * 100).toFixed(2))}%`;
+}
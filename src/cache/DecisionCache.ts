@@ -0,0 +1,180 @@
+/**
+ * Decision Cache - record-and-replay store for LLM action decisions
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { LLMActionResponse, UIElement, VisionMethod } from "../types";
+import { logger } from "../utils/logger";
+
+/**
+ * A stored decision, replayable without calling the LLM
+ */
+export interface CachedDecision {
+  instruction: string;
+  response: LLMActionResponse;
+  method: VisionMethod;
+  hits: number;
+  updatedAt: string;
+}
+
+export interface DecisionCacheOptions {
+  path?: string; // JSON file to load from and save to
+  autoSave?: boolean; // Write the file after every change (default: false, save() on demand)
+}
+
+const CACHE_FILE_VERSION = 1;
+
+/**
+ * Caches LLM decisions keyed by the instruction plus a normalized fingerprint
+ * of the visible UI hierarchy. Identical screen + instruction replays the
+ * stored action; anything else is a miss.
+ */
+export class DecisionCache {
+  private entries = new Map<string, CachedDecision>();
+  private filePath?: string;
+  private autoSave: boolean;
+
+  constructor(options: DecisionCacheOptions = {}) {
+    this.filePath = options.path;
+    this.autoSave = options.autoSave ?? false;
+    if (this.filePath) {
+      this.load();
+    }
+  }
+
+  /**
+   * Fingerprint of the visible hierarchy. Ignores volatile state such as focus,
+   * but keeps bounds so replayed coordinates stay valid.
+   */
+  static fingerprint(elements: UIElement[]): string {
+    const normalized = elements
+      .filter((e) => e.visible)
+      .map((e) => {
+        const b = e.bounds ? `${e.bounds.x1},${e.bounds.y1},${e.bounds.x2},${e.bounds.y2}` : "";
+        return [
+          e.elementId,
+          e.className || "",
+          e.resourceId || "",
+          (e.text || "").trim(),
+          e.contentDesc || "",
+          e.clickable ? 1 : 0,
+          e.enabled ? 1 : 0,
+          e.checked ? 1 : 0,
+          b,
+        ].join("|");
+      })
+      .join("\n");
+
+    return createHash("sha256").update(normalized).digest("hex");
+  }
+
+  /**
+   * Cache key for an instruction on a screen
+   */
+  static key(instruction: string, elements: UIElement[]): string {
+    const normalizedInstruction = instruction.trim().toLowerCase().replace(/\s+/g, " ");
+    return createHash("sha256")
+      .update(`${normalizedInstruction}\n${DecisionCache.fingerprint(elements)}`)
+      .digest("hex");
+  }
+
+  get path(): string | undefined {
+    return this.filePath;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Look up a stored decision and count the hit
+   */
+  get(instruction: string, elements: UIElement[]): CachedDecision | undefined {
+    const entry = this.entries.get(DecisionCache.key(instruction, elements));
+    if (entry) {
+      entry.hits++;
+    }
+    return entry;
+  }
+
+  /**
+   * Store (or refresh) the decision for an instruction on a screen
+   */
+  set(
+    instruction: string,
+    elements: UIElement[],
+    response: LLMActionResponse,
+    method: VisionMethod,
+  ): void {
+    this.entries.set(DecisionCache.key(instruction, elements), {
+      instruction,
+      response,
+      method,
+      hits: 0,
+      updatedAt: new Date().toISOString(),
+    });
+    this.persistIfNeeded();
+  }
+
+  /**
+   * Drop the decision for an instruction on a screen (e.g. after a failed replay)
+   */
+  delete(instruction: string, elements: UIElement[]): boolean {
+    const removed = this.entries.delete(DecisionCache.key(instruction, elements));
+    if (removed) {
+      this.persistIfNeeded();
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.persistIfNeeded();
+  }
+
+  /**
+   * Load entries from the cache file, ignoring a missing or unreadable file
+   */
+  load(filePath = this.filePath): void {
+    if (!filePath || !fs.existsSync(filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      if (data.version !== CACHE_FILE_VERSION) {
+        logger.warn(`Ignoring decision cache ${filePath}: unsupported version ${data.version}`);
+        return;
+      }
+      this.entries = new Map(Object.entries(data.entries || {}));
+      logger.debug(`Loaded ${this.entries.size} cached decisions from ${filePath}`);
+    } catch (error) {
+      logger.warn(`Failed to load decision cache ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Write entries to the cache file
+   */
+  save(filePath = this.filePath): void {
+    if (!filePath) {
+      throw new Error("No path configured for the decision cache");
+    }
+
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const data = { version: CACHE_FILE_VERSION, entries: Object.fromEntries(this.entries) };
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+  }
+
+  private persistIfNeeded(): void {
+    if (!this.autoSave || !this.filePath) return;
+    try {
+      this.save();
+    } catch (error) {
+      logger.warn("Failed to save decision cache:", error);
+    }
+  }
+}
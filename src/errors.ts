@@ -0,0 +1,84 @@
+/**
+ * Error types raised by the Mobile Agent SDK
+ */
+
+import type { BudgetLimits } from "./types";
+
+/**
+ * Raised when the LLM reports that an instruction cannot be completed
+ * on the current screen (terminal "fail" action)
+ */
+export class TaskFailedError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Task cannot be completed: ${reason}`);
+    this.name = "TaskFailedError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when the LLM needs information it was not given, such as
+ * credentials or a choice between options (terminal "need_input" action)
+ */
+export class NeedInputError extends Error {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Additional input required: ${reason}`);
+    this.name = "NeedInputError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised before an LLM request that would go over a budget cap
+ * (see MobileAgentConfig.budget)
+ */
+export class BudgetExceededError extends Error {
+  readonly scope: "session" | "execute";
+  readonly limit: keyof BudgetLimits;
+  readonly max: number;
+  readonly used: number;
+
+  constructor(scope: "session" | "execute", limit: keyof BudgetLimits, max: number, used: number) {
+    super(`LLM budget exceeded: ${scope} ${limit} of ${max} reached (used ${used})`);
+    this.name = "BudgetExceededError";
+    this.scope = scope;
+    this.limit = limit;
+    this.max = max;
+    this.used = used;
+  }
+}
+
+/**
+ * Raised when a single LLM request takes longer than the retry policy's timeout
+ */
+export class LLMTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`LLM request timed out after ${timeoutMs}ms`);
+    this.name = "LLMTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Raised without contacting the provider while its circuit breaker is open
+ * after repeated failures
+ */
+export class CircuitOpenError extends Error {
+  readonly failures: number;
+  readonly retryInMs: number;
+
+  constructor(failures: number, retryInMs: number) {
+    super(
+      `LLM provider unavailable after ${failures} consecutive failures; retrying in ${Math.ceil(retryInMs / 1000)}s`,
+    );
+    this.name = "CircuitOpenError";
+    this.failures = failures;
+    this.retryInMs = retryInMs;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * WebdriverIO Exporter - turns a recorded session into a standalone WDIO spec
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { isTerminalAction } from "../llm/LLMProvider";
+import { type ActionStep, ActionType, type TestResult, type UIElement } from "../types";
+import { logger } from "../utils/logger";
+
+export interface WebdriverIOExportOptions {
+  suiteName?: string; // describe() title (default: "Recorded session")
+  testName?: string; // it() title (default: the recorded task)
+  platform?: "android" | "ios"; // Selector dialect (default: inferred from element classes)
+  settleMs?: number; // Pause after every action (default: 1000)
+}
+
+type Point = { x: number; y: number };
+
+type Helper = "centerOf" | "tapAt" | "doubleTapAt" | "swipeScreen" | "pinchAt";
+
+// Source of the helpers a generated spec may need, emitted only when used
+const HELPER_SOURCE: Record<Helper, string> = {
+  centerOf: `async function centerOf(selector: string) {
+  const el = await $(selector);
+  const { x, y } = await el.getLocation();
+  const { width, height } = await el.getSize();
+  return { x: Math.round(x + width / 2), y: Math.round(y + height / 2) };
+}`,
+  tapAt: `async function tapAt(point: { x: number; y: number }, holdMs = 50) {
+  await driver.performActions([
+    {
+      type: "pointer",
+      id: "finger1",
+      parameters: { pointerType: "touch" },
+      actions: [
+        { type: "pointerMove", duration: 0, x: point.x, y: point.y },
+        { type: "pointerDown", button: 0 },
+        { type: "pause", duration: holdMs },
+        { type: "pointerUp", button: 0 },
+      ],
+    },
+  ]);
+  await driver.releaseActions();
+}`,
+  doubleTapAt: `async function doubleTapAt(point: { x: number; y: number }) {
+  await tapAt(point);
+  await driver.pause(100);
+  await tapAt(point);
+}`,
+  swipeScreen: `async function swipeScreen(direction: "up" | "down" | "left" | "right", distance: number) {
+  const { width, height } = await driver.getWindowSize();
+  const cx = Math.floor(width / 2);
+  const cy = Math.floor(height / 2);
+  const delta = Math.floor(height * distance);
+  const [dx, dy] = { up: [0, -1], down: [0, 1], left: [-1, 0], right: [1, 0] }[direction];
+  await driver.performActions([
+    {
+      type: "pointer",
+      id: "finger1",
+      parameters: { pointerType: "touch" },
+      actions: [
+        { type: "pointerMove", duration: 0, x: cx - dx * delta, y: cy - dy * delta },
+        { type: "pointerDown", button: 0 },
+        { type: "pointerMove", duration: 500, x: cx + dx * delta, y: cy + dy * delta },
+        { type: "pointerUp", button: 0 },
+      ],
+    },
+  ]);
+  await driver.releaseActions();
+}`,
+  pinchAt: `async function pinchAt(point: { x: number; y: number }, inward: boolean) {
+  const near = 10;
+  const far = 110;
+  const [from, to] = inward ? [far, near] : [near, far];
+  await driver.performActions(
+    [-1, 1].map((sign, i) => ({
+      type: "pointer",
+      id: \`finger\${i + 1}\`,
+      parameters: { pointerType: "touch" },
+      actions: [
+        { type: "pointerMove", duration: 0, x: point.x + sign * from, y: point.y },
+        { type: "pointerDown", button: 0 },
+        { type: "pointerMove", duration: 250, x: point.x + sign * to, y: point.y },
+        { type: "pointerUp", button: 0 },
+      ],
+    })),
+  );
+  await driver.releaseActions();
+}`,
+};
+
+// Helpers that other helpers call
+const HELPER_DEPENDENCIES: Partial<Record<Helper, Helper[]>> = {
+  doubleTapAt: ["tapAt"],
+};
+
+/**
+ * Exports the successful steps of a TestResult as a WebdriverIO (mocha) spec
+ * that replays the session without an LLM. Elements are located by stable
+ * selectors (resource-id, accessibility id, text) and fall back to the
+ * recorded coordinates when an element has none.
+ */
+export class WebdriverIOExporter {
+  private options: Required<Omit<WebdriverIOExportOptions, "testName" | "platform">> &
+    Pick<WebdriverIOExportOptions, "testName" | "platform">;
+
+  constructor(options: WebdriverIOExportOptions = {}) {
+    this.options = {
+      suiteName: options.suiteName || "Recorded session",
+      testName: options.testName,
+      platform: options.platform,
+      settleMs: options.settleMs ?? 1000,
+    };
+  }
+
+  /**
+   * Build the spec source for a recorded session
+   */
+  export(result: TestResult): string {
+    const platform = this.options.platform || this.inferPlatform(result.steps);
+    const helpers = new Set<Helper>();
+    const body: string[] = [];
+
+    for (const step of result.steps) {
+      if (isTerminalAction(step.actionType)) continue;
+      if (!step.success) {
+        body.push(`// Skipped failed step: ${this.comment(step.description)}`);
+        continue;
+      }
+
+      const lines = this.exportStep(step, platform, helpers);
+      if (!lines) {
+        logger.warn(`Cannot export ${step.actionType} step: ${step.description}`);
+        body.push(`// Not exportable (${step.actionType}): ${this.comment(step.description)}`);
+        continue;
+      }
+
+      body.push(`// ${this.comment(step.description)}`, ...lines);
+      if (this.options.settleMs > 0) {
+        body.push(`await driver.pause(${this.options.settleMs});`);
+      }
+      body.push("");
+    }
+
+    const testName = this.options.testName || result.task || "replays the recorded steps";
+    const helperSource = this.orderHelpers(helpers).map((h) => `${HELPER_SOURCE[h]}\n\n`);
+    const indentedBody = body
+      .map((line) => (line ? `    ${line}` : ""))
+      .join("\n")
+      .trimEnd();
+
+    return `/**
+ * Generated by @mobile-agent/sdk from a recorded session.
+ * Replays the recorded steps deterministically, without an LLM.
+ */
+
+import { $, driver } from "@wdio/globals";
+
+${helperSource.join("")}describe(${JSON.stringify(this.options.suiteName)}, () => {
+  it(${JSON.stringify(testName)}, async () => {
+${indentedBody}
+  });
+});
+`;
+  }
+
+  /**
+   * Write the spec for a recorded session to a file
+   */
+  exportToFile(result: TestResult, filePath: string): void {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(filePath, this.export(result));
+    logger.info(`Exported WebdriverIO spec to ${filePath}`);
+  }
+
+  /**
+   * Most stable selector for an element: resource-id, accessibility id, then text
+   */
+  selectorFor(element: UIElement, platform: "android" | "ios"): string | undefined {
+    const text = element.text?.trim();
+
+    if (platform === "ios") {
+      // XCUITest exposes the accessibility identifier as "name"
+      if (element.resourceId) return `~${element.resourceId}`;
+      const label = element.contentDesc || text;
+      if (label) return `-ios predicate string:label == ${JSON.stringify(label)}`;
+      return undefined;
+    }
+
+    if (element.resourceId) {
+      return `android=new UiSelector().resourceId(${JSON.stringify(element.resourceId)})`;
+    }
+    if (element.contentDesc) return `~${element.contentDesc}`;
+    if (text) return `android=new UiSelector().text(${JSON.stringify(text)})`;
+    return undefined;
+  }
+
+  private exportStep(
+    step: ActionStep,
+    platform: "android" | "ios",
+    helpers: Set<Helper>,
+  ): string[] | undefined {
+    const params = step.parameters || {};
+    const selector = step.targetElement
+      ? this.selectorFor(step.targetElement, platform)
+      : undefined;
+    const sel = selector ? JSON.stringify(selector) : undefined;
+    const point = this.pointFor(step);
+    const at = point ? `{ x: ${point.x}, y: ${point.y} }` : undefined;
+
+    // Gestures without an element API target the element center, looked up at run time
+    const target = () => {
+      if (sel) {
+        helpers.add("centerOf");
+        return `await centerOf(${sel})`;
+      }
+      return at;
+    };
+
+    switch (step.actionType) {
+      case ActionType.CLICK:
+      case ActionType.TAP:
+        if (sel) return [`await $(${sel}).click();`];
+        if (!at) return undefined;
+        helpers.add("tapAt");
+        return [`await tapAt(${at});`];
+
+      case ActionType.TYPE_TEXT: {
+        const text = JSON.stringify(params.text || "");
+        if (sel) return [`await $(${sel}).click();`, `await $(${sel}).addValue(${text});`];
+        if (!at) return undefined;
+        helpers.add("tapAt");
+        return [`await tapAt(${at});`, `await driver.keys(${text}.split(""));`];
+      }
+
+      case ActionType.SWIPE:
+      case ActionType.SCROLL: {
+        const direction = JSON.stringify(
+          params.direction || (step.actionType === ActionType.SWIPE ? "up" : "down"),
+        );
+        const distance = step.actionType === ActionType.SWIPE ? params.distance || 0.5 : 0.3;
+        helpers.add("swipeScreen");
+        return [`await swipeScreen(${direction}, ${distance});`];
+      }
+
+      case ActionType.LONG_PRESS: {
+        const t = target();
+        if (!t) return undefined;
+        helpers.add("tapAt");
+        return [`await tapAt(${t}, 1000);`];
+      }
+
+      case ActionType.DOUBLE_TAP: {
+        const t = target();
+        if (!t) return undefined;
+        helpers.add("doubleTapAt");
+        return [`await doubleTapAt(${t});`];
+      }
+
+      case ActionType.PINCH:
+      case ActionType.ZOOM: {
+        const t = target();
+        if (!t) return undefined;
+        helpers.add("pinchAt");
+        return [`await pinchAt(${t}, ${step.actionType === ActionType.PINCH});`];
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Recorded coordinates, or the element center when the step targeted an element
+   */
+  private pointFor(step: ActionStep): Point | undefined {
+    const coordinates = step.parameters?.coordinates;
+    if (coordinates) return coordinates;
+
+    const bounds = step.targetElement?.bounds;
+    if (!bounds) return undefined;
+    return {
+      x: Math.floor((bounds.x1 + bounds.x2) / 2),
+      y: Math.floor((bounds.y1 + bounds.y2) / 2),
+    };
+  }
+
+  private inferPlatform(steps: ActionStep[]): "android" | "ios" {
+    const ios = steps.some((s) => s.targetElement?.className?.startsWith("XCUIElementType"));
+    return ios ? "ios" : "android";
+  }
+
+  private orderHelpers(used: Set<Helper>): Helper[] {
+    for (const helper of Array.from(used)) {
+      for (const dependency of HELPER_DEPENDENCIES[helper] || []) {
+        used.add(dependency);
+      }
+    }
+    return (Object.keys(HELPER_SOURCE) as Helper[]).filter((h) => used.has(h));
+  }
+
+  private comment(text: string): string {
+    return text.replace(/\s+/g, " ").trim();
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Gesture Engine - W3C pointer action gestures for Appium 2 drivers
+ */
+
+import type { Browser } from "webdriverio";
+import type { GestureConfig } from "../types";
+import { logger } from "../utils/logger";
+
+type Point = { x: number; y: number };
+
+type PointerAction =
+  | { type: "pointerMove"; duration: number; x: number; y: number; origin?: "viewport" }
+  | { type: "pointerDown"; button: number }
+  | { type: "pointerUp"; button: number }
+  | { type: "pause"; duration: number };
+
+const DEFAULT_GESTURE_CONFIG: Required<GestureConfig> = {
+  tapDurationMs: 50,
+  doubleTapIntervalMs: 100,
+  longPressDurationMs: 1000,
+  swipeVelocity: 2000,
+  swipeDurationMs: 0,
+  pinchDistance: 100,
+  pinchDurationMs: 250,
+  fingers: 2,
+};
+
+const MIN_SWIPE_DURATION_MS = 100;
+
+/**
+ * Performs every touch gesture through W3C Actions (performActions), replacing
+ * the deprecated touchAction API that Appium 2 drivers no longer implement.
+ */
+export class GestureEngine {
+  private driver: Browser;
+  private config: Required<GestureConfig>;
+
+  constructor(driver: Browser, config: GestureConfig = {}) {
+    this.driver = driver;
+    this.config = { ...DEFAULT_GESTURE_CONFIG, ...config };
+  }
+
+  /**
+   * Single tap at a point
+   */
+  async tap(point: Point, options: GestureConfig = {}): Promise<void> {
+    const { tapDurationMs } = { ...this.config, ...options };
+    logger.debug(`Tap at (${point.x}, ${point.y})`);
+    await this.perform([[...this.press(point), this.pause(tapDurationMs), this.release()]]);
+  }
+
+  /**
+   * Two taps at the same point within one action sequence
+   */
+  async doubleTap(point: Point, options: GestureConfig = {}): Promise<void> {
+    const { tapDurationMs, doubleTapIntervalMs } = { ...this.config, ...options };
+    logger.debug(`Double tap at (${point.x}, ${point.y})`);
+    await this.perform([
+      [
+        ...this.press(point),
+        this.pause(tapDurationMs),
+        this.release(),
+        this.pause(doubleTapIntervalMs),
+        { type: "pointerDown", button: 0 },
+        this.pause(tapDurationMs),
+        this.release(),
+      ],
+    ]);
+  }
+
+  /**
+   * Press and hold at a point
+   */
+  async longPress(point: Point, options: GestureConfig = {}): Promise<void> {
+    const { longPressDurationMs } = { ...this.config, ...options };
+    logger.debug(`Long press at (${point.x}, ${point.y}) for ${longPressDurationMs}ms`);
+    await this.perform([[...this.press(point), this.pause(longPressDurationMs), this.release()]]);
+  }
+
+  /**
+   * Drag from one point to another. Duration comes from swipeDurationMs when set,
+   * otherwise from the distance travelled at swipeVelocity (px/s).
+   */
+  async swipe(from: Point, to: Point, options: GestureConfig = {}): Promise<void> {
+    const duration = this.swipeDuration(from, to, { ...this.config, ...options });
+    logger.debug(`Swipe (${from.x},${from.y}) -> (${to.x},${to.y}) over ${duration}ms`);
+    await this.perform([
+      [...this.press(from), this.pause(50), this.move(to, duration), this.release()],
+    ]);
+  }
+
+  /**
+   * Fingers move from pinchDistance towards the center (zoom out)
+   */
+  async pinch(center: Point, options: GestureConfig = {}): Promise<void> {
+    const config = { ...this.config, ...options };
+    logger.debug(`Pinch at (${center.x}, ${center.y}) with ${config.fingers} fingers`);
+    await this.perform(this.radialGesture(center, config.pinchDistance, 10, config));
+  }
+
+  /**
+   * Fingers move from the center out to pinchDistance (zoom in)
+   */
+  async zoom(center: Point, options: GestureConfig = {}): Promise<void> {
+    const config = { ...this.config, ...options };
+    logger.debug(`Zoom at (${center.x}, ${center.y}) with ${config.fingers} fingers`);
+    await this.perform(this.radialGesture(center, 10, config.pinchDistance, config));
+  }
+
+  /**
+   * Build one pointer sequence per finger, spread evenly around the center
+   */
+  private radialGesture(
+    center: Point,
+    startRadius: number,
+    endRadius: number,
+    config: Required<GestureConfig>,
+  ): PointerAction[][] {
+    const fingers = Math.max(2, Math.floor(config.fingers));
+    const sequences: PointerAction[][] = [];
+
+    for (let i = 0; i < fingers; i++) {
+      // Finger 1 starts on the left so two fingers give the classic horizontal pinch
+      const angle = Math.PI + (2 * Math.PI * i) / fingers;
+      const at = (radius: number): Point => ({
+        x: Math.round(center.x + radius * Math.cos(angle)),
+        y: Math.round(center.y + radius * Math.sin(angle)),
+      });
+
+      sequences.push([
+        ...this.press(at(startRadius)),
+        this.pause(50),
+        this.move(at(endRadius), config.pinchDurationMs),
+        this.release(),
+      ]);
+    }
+
+    return sequences;
+  }
+
+  private swipeDuration(from: Point, to: Point, config: Required<GestureConfig>): number {
+    if (config.swipeDurationMs > 0) {
+      return config.swipeDurationMs;
+    }
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const duration = Math.round((distance / Math.max(1, config.swipeVelocity)) * 1000);
+    return Math.max(MIN_SWIPE_DURATION_MS, duration);
+  }
+
+  private press(point: Point): PointerAction[] {
+    return [this.move(point, 0), { type: "pointerDown", button: 0 }];
+  }
+
+  private move(point: Point, duration: number): PointerAction {
+    return { type: "pointerMove", duration, x: point.x, y: point.y, origin: "viewport" };
+  }
+
+  private release(): PointerAction {
+    return { type: "pointerUp", button: 0 };
+  }
+
+  private pause(duration: number): PointerAction {
+    return { type: "pause", duration };
+  }
+
+  /**
+   * Send the sequences as simultaneous touch pointers and release input state
+   */
+  private async perform(sequences: PointerAction[][]): Promise<void> {
+    await this.driver.performActions(
+      sequences.map((actions, index) => ({
+        type: "pointer",
+        id: `finger${index + 1}`,
+        parameters: { pointerType: "touch" },
+        actions,
+      })) as any,
+    );
+    await this.driver.releaseActions();
+  }
+}
@@ -3,10 +3,96 @@
  * @packageDocumentation
  */
 
+export {
+  type CachedDecision,
+  DecisionCache,
+  type DecisionCacheOptions,
+} from "./cache/DecisionCache";
+export {
+  BudgetExceededError,
+  CircuitOpenError,
+  LLMTimeoutError,
+  NeedInputError,
+  TaskFailedError,
+} from "./errors";
+export {
+  type WebdriverIOExportOptions,
+  WebdriverIOExporter,
+} from "./export/WebdriverIOExporter";
+export { GestureEngine } from "./gestures/GestureEngine";
 export { AnthropicProvider } from "./llm/AnthropicProvider";
-export { BaseLLMProvider, LLMProvider } from "./llm/LLMProvider";
+export { type FailoverEntry, FailoverProvider } from "./llm/FailoverProvider";
+export {
+  BaseLLMProvider,
+  isTerminalAction,
+  LLMProvider,
+  withPriorTurns,
+} from "./llm/LLMProvider";
+export {
+  OpenAICompatibleProvider,
+  type OpenAICompatibleOptions,
+} from "./llm/OpenAICompatibleProvider";
 export { OpenAIProvider } from "./llm/OpenAIProvider";
+export { DEFAULT_RETRY_POLICY } from "./llm/retry";
+export {
+  actionSchema,
+  type ObjectSchema,
+  REFINEMENT_SCHEMA,
+  type ResponseSchema,
+  VERIFICATION_SCHEMA,
+} from "./llm/schemas";
+export {
+  createLLMProvider,
+  hasLLMProvider,
+  type LLMProviderFactory,
+  type LLMProviderOptions,
+  listLLMProviders,
+  registerLLMProvider,
+  unregisterLLMProvider,
+} from "./llm/registry";
+export {
+  type ActionMemory,
+  ConversationMemory,
+  type ConversationMemoryOptions,
+  estimateTokens,
+  type MemoryEntry,
+  type ScreenSummary,
+  summarizeScreen,
+  type VerificationMemory,
+} from "./memory/ConversationMemory";
 export { MobileAgent } from "./MobileAgent";
 export { UIObserver } from "./observer/UIObserver";
+export { type HtmlReportOptions, HtmlReporter } from "./report/HtmlReporter";
+export { type JUnitReportOptions, JUnitReporter } from "./report/JUnitReporter";
 export * from "./types";
+export {
+  DEFAULT_PRICING,
+  estimateCost,
+  findPricing,
+  type UsageReport,
+  UsageTracker,
+} from "./usage/UsageTracker";
+export {
+  detectImageMimeType,
+  diffImage,
+  encodeForVision,
+  getImageSize,
+  hammingDistance,
+  type ImageEncodingOptions,
+  type ImageInput,
+  type ImageRegion,
+  type PixelDiffOptions,
+  type PixelDiffResult,
+  perceptualHash,
+  pixelDiff,
+  type SsimOptions,
+  ssim,
+  type TagOverlayOptions,
+} from "./utils/imageProcessor";
 export { LogLevel, logger } from "./utils/logger";
+export {
+  BaselineStore,
+  DEFAULT_BASELINE_DIR,
+  type MatchScreenshotOptions,
+  type VisualRegressionConfig,
+} from "./visual/BaselineStore";
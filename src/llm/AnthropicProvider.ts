@@ -3,33 +3,49 @@
  */
 
 import Anthropic from "@anthropic-ai/sdk";
+import type { ChatTurn, RetryPolicy } from "../types";
+import { detectImageMimeType } from "../utils/imageProcessor";
 import { logger } from "../utils/logger";
-import { BaseLLMProvider } from "./LLMProvider";
+import { BaseLLMProvider, withPriorTurns } from "./LLMProvider";
+import type { ResponseSchema } from "./schemas";
 
 export class AnthropicProvider extends BaseLLMProvider {
   private client: Anthropic;
-  private model: string;
+  readonly model: string;
 
-  constructor(apiKey: string, model = "claude-3-5-sonnet-20241022") {
-    super();
+  /**
+   * Without an apiKey, the key is read from ANTHROPIC_API_KEY
+   */
+  constructor(
+    apiKey?: string,
+    model = "claude-3-5-sonnet-20241022",
+    retryPolicy: RetryPolicy = {},
+  ) {
+    super(retryPolicy);
+    if (!apiKey && !process.env.ANTHROPIC_API_KEY) {
+      throw new Error("Anthropic API key missing: pass apiKey or set ANTHROPIC_API_KEY");
+    }
     this.model = model;
-    this.client = new Anthropic({ apiKey });
+    this.client = new Anthropic({ apiKey, maxRetries: 0 }); // Retries are handled by withRetry
     logger.info(`Initialized Anthropic provider with model: ${model}`);
   }
 
-  async query(prompt: string, systemPrompt?: string): Promise<string> {
+  async query(prompt: string, systemPrompt?: string, turns: ChatTurn[] = []): Promise<string> {
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 2000,
-        system: systemPrompt || "",
-        messages: [
+      let startedAt = Date.now();
+      const response = await this.withRetry((signal) => {
+        startedAt = Date.now();
+        return this.client.messages.create(
           {
-            role: "user",
-            content: prompt,
+            model: this.model,
+            max_tokens: 2000,
+            system: systemPrompt || "",
+            messages: this.buildMessages(prompt, turns),
           },
-        ],
+          { signal },
+        );
       });
+      this.reportMessageUsage(response, 0, startedAt);
 
       const content = response.content[0];
       if (content.type !== "text") {
@@ -47,32 +63,23 @@ export class AnthropicProvider extends BaseLLMProvider {
     prompt: string,
     imageBase64: string,
     systemPrompt?: string,
+    turns: ChatTurn[] = [],
   ): Promise<string> {
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 2000,
-        system: systemPrompt || "",
-        messages: [
+      let startedAt = Date.now();
+      const response = await this.withRetry((signal) => {
+        startedAt = Date.now();
+        return this.client.messages.create(
           {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: prompt,
-              },
-              {
-                type: "image" as any,
-                source: {
-                  type: "base64",
-                  media_type: "image/png",
-                  data: imageBase64,
-                } as any,
-              } as any,
-            ],
+            model: this.model,
+            max_tokens: 2000,
+            system: systemPrompt || "",
+            messages: this.buildMessages(prompt, turns, imageBase64),
           },
-        ],
+          { signal },
+        );
       });
+      this.reportMessageUsage(response, 1, startedAt);
 
       const content = response.content[0];
       if (content.type !== "text") {
@@ -85,4 +92,96 @@ export class AnthropicProvider extends BaseLLMProvider {
       throw error;
     }
   }
+
+  /**
+   * Request a JSON object by forcing a tool call whose input follows the schema
+   */
+  protected async queryStructured(
+    prompt: string,
+    schema: ResponseSchema,
+    imageBase64?: string,
+    turns: ChatTurn[] = [],
+  ): Promise<string | Record<string, any>> {
+    try {
+      let startedAt = Date.now();
+      const response = await this.withRetry((signal) => {
+        startedAt = Date.now();
+        return this.client.messages.create(
+          {
+            model: this.model,
+            max_tokens: 2000,
+            messages: this.buildMessages(prompt, turns, imageBase64),
+            tools: [
+              { name: schema.name, description: schema.description, input_schema: schema.schema },
+            ],
+            tool_choice: { type: "tool", name: schema.name },
+          },
+          { signal },
+        );
+      });
+      this.reportMessageUsage(response, imageBase64 ? 1 : 0, startedAt);
+
+      const toolUse = response.content.find((block) => block.type === "tool_use");
+      if (toolUse?.type === "tool_use") {
+        return toolUse.input as Record<string, any>;
+      }
+      const text = response.content.find((block) => block.type === "text");
+      if (text?.type !== "text") {
+        throw new Error("No tool call in Anthropic structured response");
+      }
+      return text.text;
+    } catch (error) {
+      logger.error("Anthropic structured query failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Prior conversation turns, then the prompt with an optional screenshot
+   */
+  private buildMessages(
+    prompt: string,
+    turns: ChatTurn[],
+    imageBase64?: string,
+  ): Anthropic.MessageParam[] {
+    const history = withPriorTurns(turns, prompt);
+    const messages: Anthropic.MessageParam[] = history.turns.map((turn) => ({
+      role: turn.role,
+      content: turn.content,
+    }));
+
+    if (!imageBase64) {
+      messages.push({ role: "user", content: history.prompt });
+    } else {
+      messages.push({
+        role: "user",
+        content: [
+          { type: "text", text: history.prompt },
+          {
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: detectImageMimeType(imageBase64),
+              data: imageBase64,
+            },
+          },
+        ],
+      });
+    }
+    return messages;
+  }
+
+  /**
+   * Report a call's usage; `startedAt` is when its successful attempt began,
+   * so the latency leaves out retry backoff
+   */
+  private reportMessageUsage(response: Anthropic.Message, images: number, startedAt: number): void {
+    this.reportUsage({
+      model: this.model,
+      inputTokens: response.usage?.input_tokens ?? 0,
+      outputTokens: response.usage?.output_tokens ?? 0,
+      images,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
 }
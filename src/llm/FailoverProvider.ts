@@ -0,0 +1,242 @@
+/**
+ * Failover Provider - tries an ordered chain of providers/models per request
+ */
+
+import type {
+  ChatTurn,
+  LLMActionResponse,
+  LLMRefinementResponse,
+  LLMUsage,
+  LLMVerificationResponse,
+  PromptHistory,
+  RetryAttempt,
+  UIState,
+} from "../types";
+import { logger } from "../utils/logger";
+import type { LLMProvider } from "./LLMProvider";
+
+/**
+ * A provider in a failover chain with the label used in step descriptions
+ */
+export interface FailoverEntry {
+  provider: LLMProvider;
+  label: string;
+}
+
+/**
+ * Sends each request to the first provider in the chain and escalates to the
+ * next one when a provider errors out, returns unparseable JSON or answers with
+ * confidence below the threshold. This is the model-axis counterpart of the
+ * vision tier cascade in MobileAgent: every tier runs through the whole chain.
+ *
+ * Action and verification responses carry the labels of the providers that
+ * were tried in `models`; the last one produced the response.
+ */
+export class FailoverProvider implements LLMProvider {
+  readonly supportsVision: boolean;
+  onUsage?: (usage: LLMUsage) => void;
+  onRetry?: (attempt: RetryAttempt) => void;
+
+  /**
+   * Called before escalating to the next provider; throwing stops the chain
+   */
+  onEscalate?: (label: string, vision: boolean) => void;
+
+  constructor(
+    private entries: FailoverEntry[],
+    private confidenceThreshold = 0.7,
+  ) {
+    if (entries.length === 0) {
+      throw new Error("Failover chain needs at least one provider");
+    }
+    this.supportsVision = entries.some((e) => e.provider.supportsVision !== false);
+
+    for (const { provider } of entries) {
+      const forwardUsage = provider.onUsage;
+      provider.onUsage = (usage) => {
+        forwardUsage?.(usage);
+        this.onUsage?.(usage);
+      };
+      const forwardRetry = provider.onRetry;
+      provider.onRetry = (attempt) => {
+        forwardRetry?.(attempt);
+        this.onRetry?.(attempt);
+      };
+    }
+  }
+
+  async query(prompt: string, systemPrompt?: string, turns?: ChatTurn[]): Promise<string> {
+    const { result } = await this.run(false, (p) => p.query(prompt, systemPrompt, turns));
+    return result;
+  }
+
+  async queryWithVision(
+    prompt: string,
+    imageBase64: string,
+    systemPrompt?: string,
+    turns?: ChatTurn[],
+  ): Promise<string> {
+    const { result } = await this.run(true, (p) =>
+      p.queryWithVision(prompt, imageBase64, systemPrompt, turns),
+    );
+    return result;
+  }
+
+  async generateAction(
+    uiState: UIState,
+    instruction: string,
+    history: PromptHistory,
+  ): Promise<LLMActionResponse> {
+    return this.runAction(false, (p) => p.generateAction(uiState, instruction, history));
+  }
+
+  async generateActionWithVisionTagging(
+    uiState: UIState,
+    instruction: string,
+    history: PromptHistory,
+  ): Promise<LLMActionResponse> {
+    return this.runAction(true, (p) =>
+      p.generateActionWithVisionTagging(uiState, instruction, history),
+    );
+  }
+
+  async generateActionWithGridOverlay(
+    uiState: UIState,
+    instruction: string,
+    history: PromptHistory,
+  ): Promise<LLMActionResponse> {
+    return this.runAction(true, (p) =>
+      p.generateActionWithGridOverlay(uiState, instruction, history),
+    );
+  }
+
+  async generateActionWithPureVision(
+    screenshotBase64: string,
+    instruction: string,
+    screenSize: { width: number; height: number },
+    history: PromptHistory,
+  ): Promise<LLMActionResponse> {
+    return this.runAction(true, (p) =>
+      p.generateActionWithPureVision(screenshotBase64, instruction, screenSize, history),
+    );
+  }
+
+  async refineTarget(
+    uiState: UIState,
+    instruction: string,
+    target: string,
+    history: PromptHistory,
+  ): Promise<LLMRefinementResponse> {
+    const { result, models } = await this.run(
+      true,
+      (p) =>
+        p.refineTarget
+          ? p.refineTarget(uiState, instruction, target, history)
+          : Promise.reject(new Error("zoom refinement not supported")),
+      (response) => {
+        if (!response.found) return "target not found";
+        return response.confidence < this.confidenceThreshold
+          ? `low confidence (${response.confidence})`
+          : undefined;
+      },
+    );
+    return { ...result, models };
+  }
+
+  async verifyCondition(
+    uiState: UIState,
+    condition: string,
+    history: PromptHistory,
+  ): Promise<LLMVerificationResponse> {
+    return this.runVerification(false, (p) => p.verifyCondition(uiState, condition, history));
+  }
+
+  async verifyConditionWithVision(
+    uiState: UIState,
+    condition: string,
+    history: PromptHistory,
+  ): Promise<LLMVerificationResponse> {
+    return this.runVerification(true, (p) =>
+      p.verifyConditionWithVision
+        ? p.verifyConditionWithVision(uiState, condition, history)
+        : Promise.reject(new Error("vision verification not supported")),
+    );
+  }
+
+  private async runAction(
+    vision: boolean,
+    call: (provider: LLMProvider) => Promise<LLMActionResponse>,
+  ): Promise<LLMActionResponse> {
+    const { result, models } = await this.run(vision, call, (response) => {
+      if (response.action === "error") return "unparseable response";
+      if (response.confidence !== undefined && response.confidence < this.confidenceThreshold) {
+        return `low confidence (${response.confidence})`;
+      }
+      return undefined;
+    });
+    return { ...result, models };
+  }
+
+  private async runVerification(
+    vision: boolean,
+    call: (provider: LLMProvider) => Promise<LLMVerificationResponse>,
+  ): Promise<LLMVerificationResponse> {
+    const { result, models } = await this.run(vision, call, (response) =>
+      response.confidence < this.confidenceThreshold
+        ? `low confidence (${response.confidence})`
+        : undefined,
+    );
+    return { ...result, models };
+  }
+
+  /**
+   * Try the chain in order. `reject` names why a response is not good enough;
+   * when no provider gives an acceptable one, the last response received is
+   * returned, or the last error thrown when every provider failed.
+   */
+  private async run<T>(
+    vision: boolean,
+    call: (provider: LLMProvider) => Promise<T>,
+    reject: (result: T) => string | undefined = () => undefined,
+  ): Promise<{ result: T; models: string[] }> {
+    const entries = vision
+      ? this.entries.filter((e) => e.provider.supportsVision !== false)
+      : this.entries;
+    if (entries.length === 0) {
+      throw new Error("No provider in the failover chain supports vision");
+    }
+
+    const models: string[] = [];
+    let last: { result: T; models: string[] } | undefined;
+    let lastError: unknown;
+
+    for (const [i, { provider, label }] of entries.entries()) {
+      if (i > 0) {
+        this.onEscalate?.(label, vision);
+      }
+      models.push(label);
+
+      let reason: string | undefined;
+      try {
+        const result = await call(provider);
+        last = { result, models: [...models] };
+        reason = reject(result);
+        if (!reason) {
+          return { result, models };
+        }
+      } catch (error: any) {
+        lastError = error;
+        reason = `error: ${error.message}`;
+      }
+
+      if (i < entries.length - 1) {
+        logger.warn(`Provider ${label} failed (${reason}), escalating to ${entries[i + 1].label}`);
+      }
+    }
+
+    if (last) {
+      return last;
+    }
+    throw lastError;
+  }
+}
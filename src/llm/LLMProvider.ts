@@ -2,18 +2,41 @@
  * Abstract LLM Provider interface
  */
 
+import { LLMTimeoutError } from "../errors";
 import {
+  ActionType,
+  type ChatTurn,
   type LLMActionResponse,
+  type LLMRefinementResponse,
+  type LLMUsage,
   type LLMVerificationResponse,
+  type PromptHistory,
+  type RetryAttempt,
+  type RetryPolicy,
   type UIElement,
   type UIState,
   VisionMethod,
 } from "../types";
+import { logger } from "../utils/logger";
+import {
+  CircuitBreaker,
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  isRetryableError,
+  retryAfterMs,
+} from "./retry";
+import {
+  REFINEMENT_SCHEMA,
+  type ResponseSchema,
+  VERIFICATION_SCHEMA,
+  actionSchema,
+} from "./schemas";
 
 /**
  * Try to robustly parse JSON from LLM outputs that may contain
  * markdown code fences or surrounding prose. Returns the first
  * valid JSON object/array found, or throws on failure.
+ * Only used for providers without native structured output.
  */
 function parseJsonLoose(text: string): any {
   if (!text) throw new Error("Empty response");
@@ -52,16 +75,88 @@ function parseJsonLoose(text: string): any {
   throw new Error(`Failed to parse LLM response as JSON: ${text.substring(0, 200)}...`);
 }
 
+/**
+ * Prompt section describing the terminal actions every tier can return
+ */
+const TERMINAL_ACTIONS_GUIDE = `Terminal actions (no target element or location needed):
+- "done": the task is already satisfied on the current screen
+- "fail": the task is impossible on this screen; include a "reason"
+- "need_input": you need information you were not given (e.g. credentials); include a "reason"`;
+
+/**
+ * Legend of a tagged screenshot: how tags are drawn and one line per tag
+ */
+function formatTagLegend(tagMapping: Map<number, UIElement>): string {
+  const lines = Array.from(tagMapping.entries()).map(([id, elem]) => {
+    const label = elem.text || elem.contentDesc;
+    return label ? `[${id}] ${label} (${elem.elementType})` : `[${id}] ${elem.elementType}`;
+  });
+  return `Each tag is a numbered label at a corner of its element, and the element is outlined in the label's color.
+${lines.join("\n")}`;
+}
+
+/**
+ * Whether an action ends the instruction instead of interacting with the screen
+ */
+export function isTerminalAction(action: string): boolean {
+  return (
+    action === ActionType.DONE || action === ActionType.FAIL || action === ActionType.NEED_INPUT
+  );
+}
+
+/**
+ * Build the response for a terminal action, which has no target to resolve
+ */
+function buildTerminalResponse(
+  parsed: any,
+  method: VisionMethod,
+  defaultConfidence?: number,
+): LLMActionResponse {
+  return {
+    action: parsed.action,
+    parameters: parsed.parameters || {},
+    reasoning: parsed.reasoning || "",
+    reason: parsed.reason || parsed.parameters?.reason,
+    confidence: parsed.confidence ?? defaultConfidence,
+    method,
+  };
+}
+
 export interface LLMProvider {
   /**
-   * Query the LLM with a prompt
+   * Whether queryWithVision is available (assumed true when omitted)
+   */
+  readonly supportsVision?: boolean;
+
+  /**
+   * Model used for requests, shown in failover chain reports
+   */
+  readonly model?: string;
+
+  /**
+   * Called with token usage and latency after every LLM request
+   */
+  onUsage?: (usage: LLMUsage) => void;
+
+  /**
+   * Called for every failed request attempt that is about to be retried
    */
-  query(prompt: string, systemPrompt?: string): Promise<string>;
+  onRetry?: (attempt: RetryAttempt) => void;
+
+  /**
+   * Query the LLM with a prompt, after the given prior conversation turns
+   */
+  query(prompt: string, systemPrompt?: string, turns?: ChatTurn[]): Promise<string>;
 
   /**
    * Query the LLM with vision capabilities
    */
-  queryWithVision(prompt: string, imageBase64: string, systemPrompt?: string): Promise<string>;
+  queryWithVision(
+    prompt: string,
+    imageBase64: string,
+    systemPrompt?: string,
+    turns?: ChatTurn[],
+  ): Promise<string>;
 
   /**
    * Generate an action based on UI state and instruction
@@ -69,7 +164,7 @@ export interface LLMProvider {
   generateAction(
     uiState: UIState,
     instruction: string,
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse>;
 
   /**
@@ -78,7 +173,7 @@ export interface LLMProvider {
   generateActionWithVisionTagging(
     uiState: UIState,
     instruction: string,
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse>;
 
   /**
@@ -87,7 +182,7 @@ export interface LLMProvider {
   generateActionWithGridOverlay(
     uiState: UIState,
     instruction: string,
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse>;
 
   /**
@@ -97,44 +192,265 @@ export interface LLMProvider {
     screenshotBase64: string,
     instruction: string,
     screenSize: { width: number; height: number },
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse>;
 
+  /**
+   * Pick the exact target on a zoomed-in view after a coarse pick. The state
+   * carries the zoomed-in screenshot and its grid map in window coordinates.
+   * Optional: without it, coarse picks are used as they are.
+   */
+  refineTarget?(
+    uiState: UIState,
+    instruction: string,
+    target: string,
+    history: PromptHistory,
+  ): Promise<LLMRefinementResponse>;
+
   /**
    * Verify a condition against the current UI state
    */
   verifyCondition(
     uiState: UIState,
     condition: string,
-    history: string[],
+    history: PromptHistory,
+  ): Promise<LLMVerificationResponse>;
+
+  /**
+   * Verify a condition against the screenshot (numerically tagged when the
+   * state carries a tag mapping). Optional: without it, assertions only use
+   * the hierarchy.
+   */
+  verifyConditionWithVision?(
+    uiState: UIState,
+    condition: string,
+    history: PromptHistory,
   ): Promise<LLMVerificationResponse>;
 }
 
+/**
+ * Prompt lines and chat turns for a history: plain lines are embedded in the
+ * prompt, a conversation is sent as prior turns
+ */
+function splitHistory(history: PromptHistory): { lines: string[]; turns: ChatTurn[] } {
+  return Array.isArray(history)
+    ? { lines: history, turns: [] }
+    : { lines: [], turns: history.toTurns() };
+}
+
+/**
+ * Prior turns to send before a prompt. Chat APIs expect user and assistant
+ * turns to alternate, so a trailing user turn is merged into the prompt.
+ */
+export function withPriorTurns(
+  turns: ChatTurn[],
+  prompt: string,
+): { turns: ChatTurn[]; prompt: string } {
+  const last = turns[turns.length - 1];
+  if (last?.role !== "user") {
+    return { turns, prompt };
+  }
+  return { turns: turns.slice(0, -1), prompt: `${last.content}\n\n${prompt}` };
+}
+
+/**
+ * Content of a json_schema response: the JSON object, or the raw text when it
+ * does not parse (e.g. a truncated reply), left to the loose parser
+ */
+export function parseSchemaContent(content: string): string | Record<string, any> {
+  try {
+    return JSON.parse(content);
+  } catch {
+    return content;
+  }
+}
+
+/**
+ * JSON object from a structured-output reply, or parsed out of a text reply.
+ * Nulls (strict schemas' answer for fields that do not apply) are dropped.
+ */
+function parseStructured(response: string | Record<string, any>): any {
+  return dropNulls(typeof response === "string" ? parseJsonLoose(response) : response);
+}
+
+function dropNulls(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(dropNulls);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== null)
+        .map(([k, v]) => [k, dropNulls(v)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse a verification verdict, treating unparseable output as a failed check
+ */
+function parseVerificationResponse(
+  response: string | Record<string, any>,
+  method: VisionMethod,
+): LLMVerificationResponse {
+  try {
+    const parsed = parseStructured(response);
+    return {
+      passed: parsed.passed || false,
+      assertions: parsed.assertions || [],
+      issues: parsed.issues || [],
+      evidence: (parsed.evidence || parsed.evidence_element_ids || []).map(String),
+      confidence: parsed.confidence || 0,
+      method,
+    };
+  } catch (_error) {
+    return {
+      passed: false,
+      issues: [`Failed to parse LLM response: ${response}`],
+      confidence: 0,
+      method,
+    };
+  }
+}
+
 /**
  * Base class with helper methods
  */
 export abstract class BaseLLMProvider implements LLMProvider {
-  abstract query(prompt: string, systemPrompt?: string): Promise<string>;
+  onUsage?: (usage: LLMUsage) => void;
+  onRetry?: (attempt: RetryAttempt) => void;
+  private retryPolicy: Required<RetryPolicy> = DEFAULT_RETRY_POLICY;
+  private circuit = new CircuitBreaker(
+    DEFAULT_RETRY_POLICY.circuitBreakerThreshold,
+    DEFAULT_RETRY_POLICY.circuitBreakerCooldownMs,
+  );
+
+  constructor(retryPolicy: RetryPolicy = {}) {
+    this.setRetryPolicy(retryPolicy);
+  }
+
+  /**
+   * Replace the retry policy (merged over the defaults); resets the circuit breaker
+   */
+  setRetryPolicy(retryPolicy: RetryPolicy): void {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
+    this.circuit = new CircuitBreaker(
+      this.retryPolicy.circuitBreakerThreshold,
+      this.retryPolicy.circuitBreakerCooldownMs,
+    );
+  }
+
+  /**
+   * Send a request with the retry policy: each attempt gets a timeout (and an
+   * AbortSignal to cancel it), retryable failures are retried with exponential
+   * backoff and jitter or after the server's retry-after delay, and repeated
+   * failures open the circuit breaker.
+   */
+  protected async withRetry<T>(request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const policy = this.retryPolicy;
+    this.circuit.check();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.withTimeout(request, policy.timeoutMs);
+        this.circuit.recordSuccess();
+        return result;
+      } catch (error: any) {
+        if (!isRetryableError(error)) {
+          throw error;
+        }
+        if (attempt > policy.maxRetries) {
+          this.circuit.recordFailure();
+          throw error;
+        }
+
+        const delayMs = Math.min(
+          retryAfterMs(error) ?? backoffDelay(attempt, policy),
+          policy.maxDelayMs,
+        );
+        const status = typeof error.status === "number" ? error.status : undefined;
+        logger.warn(
+          `LLM request failed (${status ?? error.message}), retry ${attempt}/${policy.maxRetries} in ${delayMs}ms`,
+        );
+        this.onRetry?.({ attempt, error: error.message, status, delayMs });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  private async withTimeout<T>(
+    request: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LLMTimeoutError(timeoutMs));
+      }, timeoutMs);
+    });
+    try {
+      return await Promise.race([request(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Hand usage of a completed request to the registered listener
+   */
+  protected reportUsage(usage: LLMUsage): void {
+    this.onUsage?.(usage);
+  }
+
+  abstract query(prompt: string, systemPrompt?: string, turns?: ChatTurn[]): Promise<string>;
   abstract queryWithVision(
     prompt: string,
     imageBase64: string,
     systemPrompt?: string,
+    turns?: ChatTurn[],
   ): Promise<string>;
 
+  /**
+   * Ask for a JSON object following the schema, with an optional screenshot.
+   * Providers with native structured output (tool use, json_schema response
+   * formats) override this and return the object; the default returns the text
+   * reply, from which the JSON is parsed loosely.
+   */
+  protected async queryStructured(
+    prompt: string,
+    _schema: ResponseSchema,
+    imageBase64?: string,
+    turns: ChatTurn[] = [],
+  ): Promise<string | Record<string, any>> {
+    return imageBase64
+      ? this.queryWithVision(prompt, imageBase64, undefined, turns)
+      : this.query(prompt, undefined, turns);
+  }
+
   async generateAction(
     uiState: UIState,
     instruction: string,
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse> {
-    const prompt = this.buildActionPrompt(uiState, instruction, history);
-    const response = await this.query(prompt);
+    const { lines, turns } = splitHistory(history);
+    const prompt = this.buildActionPrompt(uiState, instruction, lines);
+    const response = await this.queryStructured(
+      prompt,
+      actionSchema(VisionMethod.HIERARCHY),
+      undefined,
+      turns,
+    );
     try {
-      const parsed = parseJsonLoose(response);
+      const parsed = parseStructured(response);
       return {
         action: parsed.action || "error",
         elementId: parsed.element_id || parsed.elementId,
         parameters: parsed.parameters || {},
         reasoning: parsed.reasoning || "",
+        reason: parsed.reason || parsed.parameters?.reason,
         confidence: parsed.confidence, // Propagate confidence from LLM
         method: VisionMethod.HIERARCHY,
       };
@@ -151,40 +467,67 @@ export abstract class BaseLLMProvider implements LLMProvider {
   async verifyCondition(
     uiState: UIState,
     condition: string,
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMVerificationResponse> {
-    const prompt = this.buildVerificationPrompt(uiState, condition, history);
-    const response = await this.query(prompt);
-    try {
-      const parsed = parseJsonLoose(response);
-      return {
-        passed: parsed.passed || false,
-        assertions: parsed.assertions || [],
-        issues: parsed.issues || [],
-        confidence: parsed.confidence || 0,
-      };
-    } catch (_error) {
-      return {
-        passed: false,
-        issues: [`Failed to parse LLM response: ${response}`],
-        confidence: 0,
-      };
+    const { lines, turns } = splitHistory(history);
+    const prompt = this.buildVerificationPrompt(uiState, condition, lines);
+    const response = await this.queryStructured(prompt, VERIFICATION_SCHEMA, undefined, turns);
+    return parseVerificationResponse(response, VisionMethod.HIERARCHY);
+  }
+
+  async verifyConditionWithVision(
+    uiState: UIState,
+    condition: string,
+    history: PromptHistory,
+  ): Promise<LLMVerificationResponse> {
+    if (!uiState.screenshotBase64) {
+      throw new Error("Screenshot not available for vision-based verification");
     }
+
+    const tagMapping = uiState.tagMapping;
+    const method = tagMapping ? VisionMethod.VISION_TAGGING : VisionMethod.PURE_VISION;
+    const { lines, turns } = splitHistory(history);
+    const prompt = this.buildVisionVerificationPrompt(condition, lines, tagMapping);
+    const response = await this.queryStructured(
+      prompt,
+      VERIFICATION_SCHEMA,
+      uiState.screenshotBase64,
+      turns,
+    );
+    const result = parseVerificationResponse(response, method);
+
+    // Tagged screenshots cite tag numbers; report the tagged elements' IDs instead
+    if (tagMapping && result.evidence) {
+      result.evidence = result.evidence
+        .map((tag) => tagMapping.get(Number(tag))?.elementId)
+        .filter((id): id is string => id !== undefined);
+    }
+    return result;
   }
 
   async generateActionWithVisionTagging(
     uiState: UIState,
     instruction: string,
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse> {
     if (!uiState.screenshotBase64 || !uiState.tagMapping) {
       throw new Error("Tagged screenshot not available for vision-based approach");
     }
 
-    const prompt = this.buildVisionTaggingPrompt(uiState.tagMapping, instruction, history);
-    const response = await this.queryWithVision(prompt, uiState.screenshotBase64);
+    const { lines, turns } = splitHistory(history);
+    const prompt = this.buildVisionTaggingPrompt(uiState.tagMapping, instruction, lines);
+    const response = await this.queryStructured(
+      prompt,
+      actionSchema(VisionMethod.VISION_TAGGING),
+      uiState.screenshotBase64,
+      turns,
+    );
     try {
-      const parsed = parseJsonLoose(response);
+      const parsed = parseStructured(response);
+      if (isTerminalAction(parsed.action)) {
+        return buildTerminalResponse(parsed, VisionMethod.VISION_TAGGING, 0.8);
+      }
+
       const tagId = parsed.tag_id || parsed.tagId;
       const targetElement = uiState.tagMapping.get(tagId);
 
@@ -222,16 +565,26 @@ export abstract class BaseLLMProvider implements LLMProvider {
   async generateActionWithGridOverlay(
     uiState: UIState,
     instruction: string,
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse> {
     if (!uiState.screenshotBase64 || !uiState.gridMap) {
       throw new Error("Grid overlay screenshot not available");
     }
 
-    const prompt = this.buildGridOverlayPrompt(uiState.gridMap, instruction, history);
-    const response = await this.queryWithVision(prompt, uiState.screenshotBase64);
+    const { lines, turns } = splitHistory(history);
+    const prompt = this.buildGridOverlayPrompt(uiState.gridMap, instruction, lines);
+    const response = await this.queryStructured(
+      prompt,
+      actionSchema(VisionMethod.GRID_OVERLAY),
+      uiState.screenshotBase64,
+      turns,
+    );
     try {
-      const parsed = parseJsonLoose(response);
+      const parsed = parseStructured(response);
+      if (isTerminalAction(parsed.action)) {
+        return buildTerminalResponse(parsed, VisionMethod.GRID_OVERLAY, 0.7);
+      }
+
       const gridPosition = parsed.grid_position || parsed.gridPosition;
       const coordinates = uiState.gridMap.get(gridPosition);
 
@@ -262,12 +615,22 @@ export abstract class BaseLLMProvider implements LLMProvider {
     screenshotBase64: string,
     instruction: string,
     screenSize: { width: number; height: number },
-    history: string[],
+    history: PromptHistory,
   ): Promise<LLMActionResponse> {
-    const prompt = this.buildPureVisionPrompt(instruction, screenSize, history);
-    const response = await this.queryWithVision(prompt, screenshotBase64);
+    const { lines, turns } = splitHistory(history);
+    const prompt = this.buildPureVisionPrompt(instruction, screenSize, lines);
+    const response = await this.queryStructured(
+      prompt,
+      actionSchema(VisionMethod.PURE_VISION),
+      screenshotBase64,
+      turns,
+    );
     try {
-      const parsed = parseJsonLoose(response);
+      const parsed = parseStructured(response);
+      if (isTerminalAction(parsed.action)) {
+        return buildTerminalResponse(parsed, VisionMethod.PURE_VISION, 0.6);
+      }
+
       const location = parsed.location || parsed.position;
 
       if (
@@ -302,6 +665,44 @@ export abstract class BaseLLMProvider implements LLMProvider {
     }
   }
 
+  async refineTarget(
+    uiState: UIState,
+    instruction: string,
+    target: string,
+    history: PromptHistory,
+  ): Promise<LLMRefinementResponse> {
+    if (!uiState.screenshotBase64 || !uiState.gridMap) {
+      throw new Error("Zoomed-in screenshot not available");
+    }
+
+    const { lines, turns } = splitHistory(history);
+    const prompt = this.buildRefinementPrompt(uiState.gridMap, instruction, target, lines);
+    const response = await this.queryStructured(
+      prompt,
+      REFINEMENT_SCHEMA,
+      uiState.screenshotBase64,
+      turns,
+    );
+    try {
+      const parsed = parseStructured(response);
+      const gridPosition = parsed.grid_position || parsed.gridPosition;
+      const coordinates = gridPosition ? uiState.gridMap.get(gridPosition) : undefined;
+      return {
+        found: Boolean(parsed.found && coordinates),
+        gridPosition,
+        coordinates,
+        reasoning: parsed.reasoning || "",
+        confidence: parsed.confidence || 0,
+      };
+    } catch (error: any) {
+      return {
+        found: false,
+        reasoning: `Failed to parse refinement response: ${error.message}`,
+        confidence: 0,
+      };
+    }
+  }
+
   private buildActionPrompt(uiState: UIState, instruction: string, history: string[]): string {
     const elementsDesc = uiState.elements
       .filter((e) => e.clickable && e.visible)
@@ -334,6 +735,8 @@ Respond with a JSON object containing:
 - "reasoning": brief explanation of why this action
 - "confidence": confidence score between 0 and 1 (0 = not confident, 1 = very confident)
 
+${TERMINAL_ACTIONS_GUIDE}
+
 Example response:
 {
   "action": "click",
@@ -371,6 +774,7 @@ Respond with a JSON object containing:
 - "passed": boolean indicating if the condition is met
 - "assertions": array of assertion objects with description and passed status
 - "issues": array of strings describing any issues found
+- "evidence": array of element IDs from the list above that your verdict relies on
 - "confidence": confidence score (0-1)
 
 Example response:
@@ -380,22 +784,57 @@ Example response:
     {"description": "Settings page is visible", "passed": true}
   ],
   "issues": [],
+  "evidence": ["4"],
   "confidence": 0.95
 }`;
   }
 
+  private buildVisionVerificationPrompt(
+    condition: string,
+    history: string[],
+    tagMapping?: Map<number, UIElement>,
+  ): string {
+    const historyDesc = history.length > 0 ? `\nActions taken:\n${history.join("\n")}` : "";
+    const taggedElements = tagMapping
+      ? `
+
+The screenshot shows numbered tags on interactive elements.
+${formatTagLegend(tagMapping)}`
+      : "";
+    const evidence = tagMapping
+      ? "array of tag numbers of the elements your verdict relies on"
+      : "empty array (no element tags are shown)";
+
+    return `You are an expert mobile app testing agent with vision capabilities. Verify if the following condition is met by looking at the screenshot.
+Judge what is visible on screen: text, colors, images, icons, layout, charts and custom-drawn content.
+
+Condition to verify: ${condition}
+${historyDesc}${taggedElements}
+
+Respond with a JSON object containing:
+- "passed": boolean indicating if the condition is met
+- "assertions": array of assertion objects with description and passed status
+- "issues": array of strings describing any issues found
+- "evidence": ${evidence}
+- "confidence": confidence score (0-1)
+
+Example response:
+{
+  "passed": true,
+  "assertions": [
+    {"description": "The submit button is green", "passed": true}
+  ],
+  "issues": [],
+  "evidence": [${tagMapping ? "3" : ""}],
+  "confidence": 0.9
+}`;
+  }
+
   private buildVisionTaggingPrompt(
     tagMapping: Map<number, UIElement>,
     instruction: string,
     history: string[],
   ): string {
-    const taggedElements = Array.from(tagMapping.entries())
-      .map(([id, elem]) => {
-        const label = elem.text || elem.contentDesc || elem.elementType;
-        return `[${id}] ${label}`;
-      })
-      .join("\n");
-
     const historyDesc = history.length > 0 ? `\nPrevious actions:\n${history.join("\n")}` : "";
 
     return `You are an expert mobile app testing agent with vision capabilities.
@@ -406,7 +845,7 @@ Task: ${instruction}
 ${historyDesc}
 
 Tagged Elements:
-${taggedElements}
+${formatTagLegend(tagMapping)}
 
 Analyze the screenshot and respond with JSON:
 {
@@ -419,7 +858,9 @@ Analyze the screenshot and respond with JSON:
 
 Available actions: click, type_text, swipe, scroll, long_press
 For type_text, include {"text": "..."} in parameters.
-For swipe/scroll, include {"direction": "up/down/left/right"} in parameters.`;
+For swipe/scroll, include {"direction": "up/down/left/right"} in parameters.
+
+${TERMINAL_ACTIONS_GUIDE}`;
   }
 
   private buildGridOverlayPrompt(
@@ -452,7 +893,39 @@ Respond with JSON:
 
 Available actions: click, type_text, swipe, scroll, long_press
 For type_text, include {"text": "..."} in parameters.
-For swipe/scroll, include {"direction": "up/down/left/right"} in parameters.`;
+For swipe/scroll, include {"direction": "up/down/left/right"} in parameters.
+
+${TERMINAL_ACTIONS_GUIDE}`;
+  }
+
+  private buildRefinementPrompt(
+    gridMap: Map<string, { x: number; y: number }>,
+    instruction: string,
+    target: string,
+    history: string[],
+  ): string {
+    const gridSize = Math.sqrt(gridMap.size);
+    const historyDesc = history.length > 0 ? `\nPrevious actions:\n${history.join("\n")}` : "";
+
+    return `You are an expert mobile app testing agent with vision capabilities.
+
+The screenshot is a magnified crop of the screen around your previous pick for this task.
+It has a grid overlay (${gridSize}x${gridSize}). Columns are labeled A-Z (left to right), rows 1-N (top to bottom).
+
+Task: ${instruction}
+Target you picked: ${target}
+${historyDesc}
+
+Find the target in this zoomed-in view and pick the grid cell over its center.
+If the target is not visible in this view, answer with "found": false.
+
+Respond with JSON:
+{
+  "found": true,
+  "grid_position": "B3",
+  "reasoning": "The settings icon is centered in B3",
+  "confidence": 0.9
+}`;
   }
 
   private buildPureVisionPrompt(
@@ -497,6 +970,8 @@ Available actions: click, type_text, swipe, scroll, long_press
 For type_text, include {"text": "..."} in parameters.
 For swipe/scroll, include {"direction": "up/down/left/right"} in parameters.
 
+${TERMINAL_ACTIONS_GUIDE}
+
 Examples:
 - Button at bottom center: {"x_percent": 50, "y_percent": 90}
 - Input field at top left: {"x_percent": 20, "y_percent": 15}
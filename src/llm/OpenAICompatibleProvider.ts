@@ -0,0 +1,204 @@
+/**
+ * OpenAI-compatible LLM Provider (Ollama, vLLM, llama.cpp, LM Studio, ...)
+ */
+
+import OpenAI from "openai";
+import type { ChatTurn, RetryPolicy } from "../types";
+import { detectImageMimeType } from "../utils/imageProcessor";
+import { logger } from "../utils/logger";
+import { BaseLLMProvider, parseSchemaContent, withPriorTurns } from "./LLMProvider";
+import type { ResponseSchema } from "./schemas";
+
+/**
+ * Options for a self-hosted OpenAI-compatible endpoint
+ */
+export interface OpenAICompatibleOptions {
+  model: string;
+  baseURL?: string; // Defaults to a local Ollama server
+  apiKey?: string; // Most self-hosted servers need none
+  supportsVision?: boolean; // Whether the model accepts image input
+  structuredOutput?: boolean; // Whether the server supports json_schema response formats
+  temperature?: number;
+  maxTokens?: number;
+  headers?: Record<string, string>;
+  retry?: RetryPolicy; // Retries, timeouts and circuit breaker (see BaseLLMProvider)
+}
+
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+// Placeholder bearer token for servers that ignore authentication
+const NO_API_KEY = "sk-no-key-required";
+
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  readonly supportsVision: boolean;
+  readonly structuredOutput: boolean;
+  private client: OpenAI;
+  readonly model: string;
+  private baseURL: string;
+  private temperature: number;
+  private maxTokens: number;
+
+  constructor(options: OpenAICompatibleOptions) {
+    super(options.retry);
+    if (!options.model) {
+      throw new Error("OpenAI-compatible provider requires a model name");
+    }
+
+    this.model = options.model;
+    this.baseURL = options.baseURL || DEFAULT_BASE_URL;
+    this.supportsVision = options.supportsVision ?? false;
+    this.structuredOutput = options.structuredOutput ?? false;
+    this.temperature = options.temperature ?? 0.2;
+    this.maxTokens = options.maxTokens ?? 2000;
+    this.client = new OpenAI({
+      apiKey: options.apiKey || NO_API_KEY,
+      baseURL: this.baseURL,
+      defaultHeaders: options.headers,
+      maxRetries: 0, // Retries are handled by withRetry
+    });
+    const vision = this.supportsVision ? " (vision)" : "";
+    logger.info(
+      `Initialized OpenAI-compatible provider at ${this.baseURL} with model: ${this.model}${vision}`,
+    );
+  }
+
+  async query(prompt: string, systemPrompt?: string, turns: ChatTurn[] = []): Promise<string> {
+    try {
+      return await this.complete(this.buildMessages(prompt, systemPrompt, turns), 0);
+    } catch (error) {
+      logger.error(`OpenAI-compatible query to ${this.baseURL} failed:`, error);
+      throw error;
+    }
+  }
+
+  async queryWithVision(
+    prompt: string,
+    imageBase64: string,
+    systemPrompt?: string,
+    turns: ChatTurn[] = [],
+  ): Promise<string> {
+    if (!this.supportsVision) {
+      throw new Error(
+        `Model ${this.model} at ${this.baseURL} is not configured for vision (set supportsVision)`,
+      );
+    }
+
+    try {
+      return await this.complete(this.buildMessages(prompt, systemPrompt, turns, imageBase64), 1);
+    } catch (error) {
+      logger.error(`OpenAI-compatible vision query to ${this.baseURL} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Request a JSON object through the json_schema response format when the
+   * server supports it, otherwise parse it out of a plain reply
+   */
+  protected async queryStructured(
+    prompt: string,
+    schema: ResponseSchema,
+    imageBase64?: string,
+    turns: ChatTurn[] = [],
+  ): Promise<string | Record<string, any>> {
+    if (!this.structuredOutput) {
+      return super.queryStructured(prompt, schema, imageBase64, turns);
+    }
+    if (imageBase64 && !this.supportsVision) {
+      throw new Error(
+        `Model ${this.model} at ${this.baseURL} is not configured for vision (set supportsVision)`,
+      );
+    }
+
+    try {
+      const messages = this.buildMessages(prompt, undefined, turns, imageBase64);
+      const text = await this.complete(messages, imageBase64 ? 1 : 0, {
+        type: "json_schema",
+        json_schema: {
+          name: schema.name,
+          description: schema.description,
+          schema: schema.schema,
+          strict: true,
+        },
+      });
+      return parseSchemaContent(text);
+    } catch (error) {
+      logger.error(`OpenAI-compatible structured query to ${this.baseURL} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * System prompt, prior conversation turns, then the prompt with an optional screenshot
+   */
+  private buildMessages(
+    prompt: string,
+    systemPrompt: string | undefined,
+    turns: ChatTurn[],
+    imageBase64?: string,
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+    }
+
+    const history = withPriorTurns(turns, prompt);
+    for (const turn of history.turns) {
+      messages.push({ role: turn.role, content: turn.content });
+    }
+
+    if (!imageBase64) {
+      messages.push({ role: "user", content: history.prompt });
+    } else {
+      messages.push({
+        role: "user",
+        content: [
+          { type: "text", text: history.prompt },
+          {
+            type: "image_url",
+            image_url: { url: `data:${detectImageMimeType(imageBase64)};base64,${imageBase64}` },
+          },
+        ],
+      });
+    }
+    return messages;
+  }
+
+  private async complete(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    images: number,
+    responseFormat?: OpenAI.ResponseFormatJSONSchema,
+  ): Promise<string> {
+    let startedAt = Date.now();
+    const response = await this.withRetry((signal) => {
+      startedAt = Date.now(); // Time the attempt that succeeds, not the retry backoff
+      return this.client.chat.completions.create(
+        {
+          model: this.model,
+          messages,
+          temperature: this.temperature,
+          max_tokens: this.maxTokens,
+          response_format: responseFormat,
+        },
+        { signal },
+      );
+    });
+
+    // Many self-hosted servers omit usage; report zero tokens rather than nothing
+    this.reportUsage({
+      model: this.model,
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0,
+      images,
+      latencyMs: Date.now() - startedAt,
+    });
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No content in response from ${this.baseURL}`);
+    }
+
+    return content;
+  }
+}
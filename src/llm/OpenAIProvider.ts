@@ -3,42 +3,47 @@
  */
 
 import OpenAI from "openai";
+import type { ChatTurn, RetryPolicy } from "../types";
+import { detectImageMimeType } from "../utils/imageProcessor";
 import { logger } from "../utils/logger";
-import { BaseLLMProvider } from "./LLMProvider";
+import { BaseLLMProvider, parseSchemaContent, withPriorTurns } from "./LLMProvider";
+import type { ResponseSchema } from "./schemas";
 
 export class OpenAIProvider extends BaseLLMProvider {
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
 
-  constructor(apiKey: string, model = "gpt-4o") {
-    super();
+  /**
+   * Without an apiKey, the key is read from OPENAI_API_KEY
+   */
+  constructor(apiKey?: string, model = "gpt-4o", retryPolicy: RetryPolicy = {}) {
+    super(retryPolicy);
+    if (!apiKey && !process.env.OPENAI_API_KEY) {
+      throw new Error("OpenAI API key missing: pass apiKey or set OPENAI_API_KEY");
+    }
     this.model = model;
-    this.client = new OpenAI({ apiKey });
+    this.client = new OpenAI({ apiKey, maxRetries: 0 }); // Retries are handled by withRetry
     logger.info(`Initialized OpenAI provider with model: ${model}`);
   }
 
-  async query(prompt: string, systemPrompt?: string): Promise<string> {
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-    if (systemPrompt) {
-      messages.push({
-        role: "system",
-        content: systemPrompt,
-      });
-    }
-
-    messages.push({
-      role: "user",
-      content: prompt,
-    });
+  async query(prompt: string, systemPrompt?: string, turns: ChatTurn[] = []): Promise<string> {
+    const messages = this.buildMessages(prompt, systemPrompt, turns);
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages,
-        temperature: 0.7,
-        max_tokens: 2000,
+      let startedAt = Date.now();
+      const response = await this.withRetry((signal) => {
+        startedAt = Date.now();
+        return this.client.chat.completions.create(
+          {
+            model: this.model,
+            messages,
+            temperature: 0.7,
+            max_tokens: 2000,
+          },
+          { signal },
+        );
       });
+      this.reportCompletionUsage(response, 0, startedAt);
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
@@ -56,39 +61,25 @@ export class OpenAIProvider extends BaseLLMProvider {
     prompt: string,
     imageBase64: string,
     systemPrompt?: string,
+    turns: ChatTurn[] = [],
   ): Promise<string> {
-    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
-
-    if (systemPrompt) {
-      messages.push({
-        role: "system",
-        content: systemPrompt,
-      });
-    }
-
-    messages.push({
-      role: "user",
-      content: [
-        {
-          type: "text",
-          text: prompt,
-        },
-        {
-          type: "image_url",
-          image_url: {
-            url: `data:image/png;base64,${imageBase64}`,
-          },
-        },
-      ],
-    });
+    const messages = this.buildMessages(prompt, systemPrompt, turns, imageBase64);
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages,
-        temperature: 0.7,
-        max_tokens: 2000,
+      let startedAt = Date.now();
+      const response = await this.withRetry((signal) => {
+        startedAt = Date.now();
+        return this.client.chat.completions.create(
+          {
+            model: this.model,
+            messages,
+            temperature: 0.7,
+            max_tokens: 2000,
+          },
+          { signal },
+        );
       });
+      this.reportCompletionUsage(response, 1, startedAt);
 
       const content = response.choices[0]?.message?.content;
       if (!content) {
@@ -101,4 +92,106 @@ export class OpenAIProvider extends BaseLLMProvider {
       throw error;
     }
   }
+
+  /**
+   * Request a JSON object through the json_schema response format
+   */
+  protected async queryStructured(
+    prompt: string,
+    schema: ResponseSchema,
+    imageBase64?: string,
+    turns: ChatTurn[] = [],
+  ): Promise<string | Record<string, any>> {
+    const messages = this.buildMessages(prompt, undefined, turns, imageBase64);
+
+    try {
+      let startedAt = Date.now();
+      const response = await this.withRetry((signal) => {
+        startedAt = Date.now();
+        return this.client.chat.completions.create(
+          {
+            model: this.model,
+            messages,
+            temperature: 0.7,
+            max_tokens: 2000,
+            response_format: {
+              type: "json_schema",
+              json_schema: {
+                name: schema.name,
+                description: schema.description,
+                schema: schema.schema,
+                strict: true,
+              },
+            },
+          },
+          { signal },
+        );
+      });
+      this.reportCompletionUsage(response, imageBase64 ? 1 : 0, startedAt);
+
+      const message = response.choices[0]?.message;
+      if (!message?.content) {
+        throw new Error(message?.refusal || "No content in OpenAI structured response");
+      }
+      return parseSchemaContent(message.content);
+    } catch (error) {
+      logger.error("OpenAI structured query failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * System prompt, prior conversation turns, then the prompt with an optional screenshot
+   */
+  private buildMessages(
+    prompt: string,
+    systemPrompt: string | undefined,
+    turns: ChatTurn[],
+    imageBase64?: string,
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+    }
+
+    const history = withPriorTurns(turns, prompt);
+    for (const turn of history.turns) {
+      messages.push({ role: turn.role, content: turn.content });
+    }
+
+    if (!imageBase64) {
+      messages.push({ role: "user", content: history.prompt });
+    } else {
+      messages.push({
+        role: "user",
+        content: [
+          { type: "text", text: history.prompt },
+          {
+            type: "image_url",
+            image_url: { url: `data:${detectImageMimeType(imageBase64)};base64,${imageBase64}` },
+          },
+        ],
+      });
+    }
+    return messages;
+  }
+
+  /**
+   * Report a call's usage; `startedAt` is when its successful attempt began,
+   * so the latency leaves out retry backoff
+   */
+  private reportCompletionUsage(
+    response: OpenAI.Chat.ChatCompletion,
+    images: number,
+    startedAt: number,
+  ): void {
+    this.reportUsage({
+      model: this.model,
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0,
+      images,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
 }
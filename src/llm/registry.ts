@@ -0,0 +1,79 @@
+/**
+ * LLM Provider Registry - maps provider names to factories
+ */
+
+import type { RetryPolicy } from "../types";
+import { AnthropicProvider } from "./AnthropicProvider";
+import type { LLMProvider } from "./LLMProvider";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider";
+import { OpenAIProvider } from "./OpenAIProvider";
+
+/**
+ * Options handed to a provider factory
+ */
+export interface LLMProviderOptions {
+  apiKey?: string;
+  model?: string;
+  retry?: RetryPolicy; // Retry policy for providers built on BaseLLMProvider
+  [key: string]: any;
+}
+
+export type LLMProviderFactory = (options: LLMProviderOptions) => LLMProvider;
+
+const factories = new Map<string, LLMProviderFactory>();
+
+/**
+ * Register a provider factory under a name usable as `llmProvider` / `LLM_PROVIDER`.
+ * Registering an existing name replaces its factory.
+ */
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  factories.set(name.toLowerCase(), factory);
+}
+
+/**
+ * Remove a registered provider factory
+ */
+export function unregisterLLMProvider(name: string): boolean {
+  return factories.delete(name.toLowerCase());
+}
+
+/**
+ * Whether a provider factory is registered under the name
+ */
+export function hasLLMProvider(name: string): boolean {
+  return factories.has(name.toLowerCase());
+}
+
+/**
+ * Names of all registered providers
+ */
+export function listLLMProviders(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * Create a provider instance from its registered factory
+ */
+export function createLLMProvider(name: string, options: LLMProviderOptions = {}): LLMProvider {
+  const factory = factories.get(name.toLowerCase());
+  if (!factory) {
+    throw new Error(
+      `Unknown LLM provider: ${name}. Registered providers: ${listLLMProviders().join(", ")}`,
+    );
+  }
+  return factory(options);
+}
+
+registerLLMProvider(
+  "openai",
+  ({ apiKey, model, retry }) => new OpenAIProvider(apiKey, model, retry),
+);
+registerLLMProvider(
+  "anthropic",
+  ({ apiKey, model, retry }) => new AnthropicProvider(apiKey, model, retry),
+);
+registerLLMProvider(
+  "openai-compatible",
+  ({ apiKey, model, ...options }) =>
+    new OpenAICompatibleProvider({ ...options, apiKey, model: model || "" }),
+);
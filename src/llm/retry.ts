@@ -0,0 +1,103 @@
+/**
+ * Retry helpers for LLM requests - backoff, retry-after and a circuit breaker
+ */
+
+import { CircuitOpenError, LLMTimeoutError } from "../errors";
+import type { RetryPolicy } from "../types";
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  timeoutMs: 60000,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldownMs: 30000,
+};
+
+// Socket errors worth another attempt; requests that never reached the API
+const TRANSIENT_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"];
+
+/**
+ * Whether a failed request may succeed when sent again: timeouts, rate
+ * limits, overload (429, 529), server errors and dropped connections
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof LLMTimeoutError) return true;
+  const status = error?.status;
+  if (typeof status === "number") {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  if (TRANSIENT_CODES.includes(error?.code) || TRANSIENT_CODES.includes(error?.cause?.code)) {
+    return true;
+  }
+  return /Connection/.test(error?.constructor?.name || "");
+}
+
+/**
+ * Delay requested by the server through `retry-after-ms` or `retry-after`
+ * (seconds or an HTTP date), or undefined when there is none
+ */
+export function retryAfterMs(error: any): number | undefined {
+  const headers = error?.headers;
+  if (!headers) return undefined;
+  const header = (name: string): string | undefined =>
+    (typeof headers.get === "function" ? headers.get(name) : headers[name]) ?? undefined;
+
+  const ms = Number(header("retry-after-ms"));
+  if (header("retry-after-ms") && Number.isFinite(ms)) return Math.max(0, ms);
+
+  const value = header("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff for the given retry (1-based) with "equal jitter":
+ * a random delay between half and all of the exponential step
+ */
+export function backoffDelay(retry: number, policy: Required<RetryPolicy>): number {
+  const exponential = policy.initialDelayMs * policy.backoffFactor ** (retry - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * Opens after a number of consecutive failed requests and rejects requests
+ * until the cooldown passes; then one trial request decides whether it closes
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+
+  constructor(
+    private threshold: number,
+    private cooldownMs: number,
+  ) {}
+
+  /**
+   * Throw a CircuitOpenError while the circuit is open
+   */
+  check(): void {
+    if (this.openedAt === undefined) return;
+    const remainingMs = this.openedAt + this.cooldownMs - Date.now();
+    if (remainingMs > 0) {
+      throw new CircuitOpenError(this.failures, remainingMs);
+    }
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.threshold > 0 && this.failures >= this.threshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * JSON schemas for structured LLM output (tool use / json_schema response formats)
+ */
+
+import { ActionType, VisionMethod } from "../types";
+
+/**
+ * JSON schema of an object in the subset strict structured output accepts:
+ * every property required and no additional properties
+ */
+export type ObjectSchema = {
+  type: "object";
+  description?: string;
+  properties: Record<string, any>;
+  required: string[];
+  additionalProperties: false;
+};
+
+/**
+ * A named JSON schema the LLM's answer must follow
+ */
+export interface ResponseSchema {
+  name: string; // Tool / schema name (letters, digits, underscores)
+  description: string;
+  schema: ObjectSchema;
+}
+
+/**
+ * Allow null for a property: strict mode requires every property, so the
+ * model answers null for the ones that do not apply
+ */
+function nullable(property: Record<string, any>): Record<string, any> {
+  return {
+    ...property,
+    type: [property.type, "null"],
+    ...(property.enum ? { enum: [...property.enum, null] } : {}),
+  };
+}
+
+/**
+ * Strict object schema; `optional` properties are nullable instead of omitted
+ */
+function strictObject(
+  properties: Record<string, any>,
+  optional: Record<string, any> = {},
+  description?: string,
+): ObjectSchema {
+  const nullables = Object.fromEntries(
+    Object.entries(optional).map(([key, property]) => [key, nullable(property)]),
+  );
+  const all = { ...properties, ...nullables };
+  return {
+    type: "object",
+    ...(description ? { description } : {}),
+    properties: all,
+    required: Object.keys(all),
+    additionalProperties: false,
+  };
+}
+
+const ACTION_PROPERTIES: Record<string, any> = {
+  action: {
+    type: "string",
+    enum: Object.values(ActionType),
+    description: "Action to perform, or done / fail / need_input to end the task",
+  },
+  reasoning: { type: "string", description: "Brief explanation of the action" },
+  confidence: { type: "number", minimum: 0, maximum: 1, description: "Confidence from 0 to 1" },
+};
+
+const OPTIONAL_ACTION_PROPERTIES: Record<string, any> = {
+  parameters: strictObject(
+    {},
+    {
+      text: { type: "string", description: "Text to enter (type_text)" },
+      direction: { type: "string", enum: ["up", "down", "left", "right"] },
+      distance: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description: "Swipe length as a fraction of the screen (swipe)",
+      },
+    },
+    "Action parameters, e.g. the text for type_text or the direction for swipe / scroll",
+  ),
+  reason: { type: "string", description: "Why the task cannot proceed (fail / need_input only)" },
+};
+
+// How each tier points at its target
+const TARGET_PROPERTIES: Record<VisionMethod, Record<string, any>> = {
+  [VisionMethod.HIERARCHY]: {
+    element_id: { type: "string", description: "ID of the target element from the element list" },
+  },
+  [VisionMethod.VISION_TAGGING]: {
+    tag_id: { type: "integer", description: "Number of the tagged target element" },
+  },
+  [VisionMethod.GRID_OVERLAY]: {
+    grid_position: { type: "string", description: 'Grid cell of the target, e.g. "C5"' },
+  },
+  [VisionMethod.PURE_VISION]: {
+    element: { type: "string", description: "Description of the target element" },
+    location: strictObject(
+      {
+        x_percent: { type: "number", minimum: 0, maximum: 100 },
+        y_percent: { type: "number", minimum: 0, maximum: 100 },
+      },
+      {},
+      "Center of the target as a percentage of the screen size",
+    ),
+  },
+};
+
+/**
+ * Schema for the next action, with the target field(s) of the given tier.
+ * Terminal actions have no target, so the target fields are nullable.
+ */
+export function actionSchema(method: VisionMethod): ResponseSchema {
+  return {
+    name: "select_action",
+    description: "Select the next action to perform on the mobile app",
+    schema: strictObject(ACTION_PROPERTIES, {
+      ...OPTIONAL_ACTION_PROPERTIES,
+      ...TARGET_PROPERTIES[method],
+    }),
+  };
+}
+
+/**
+ * Schema for a verification verdict
+ */
+export const VERIFICATION_SCHEMA: ResponseSchema = {
+  name: "report_verification",
+  description: "Report whether the condition holds on the current screen",
+  schema: strictObject({
+    passed: { type: "boolean" },
+    assertions: {
+      type: "array",
+      items: strictObject({ description: { type: "string" }, passed: { type: "boolean" } }),
+    },
+    issues: { type: "array", items: { type: "string" } },
+    evidence: {
+      type: "array",
+      items: { type: "string" },
+      description: "IDs (or tag numbers) of the elements the verdict relies on",
+    },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+  }),
+};
+
+/**
+ * Schema for picking the exact target on a zoomed-in view with a fine grid
+ */
+export const REFINEMENT_SCHEMA: ResponseSchema = {
+  name: "refine_target",
+  description: "Pick the grid cell over the exact target in the zoomed-in view",
+  schema: strictObject(
+    {
+      found: { type: "boolean", description: "Whether the target is visible in this view" },
+      reasoning: { type: "string" },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+    {
+      grid_position: { type: "string", description: 'Grid cell over the target, e.g. "B3"' },
+    },
+  ),
+};
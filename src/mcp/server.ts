@@ -6,12 +6,16 @@
  */
 
 import * as fs from "node:fs";
+import * as path from "node:path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CallToolRequestSchema, ListToolsRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import type { Browser } from "webdriverio";
 import { remote } from "webdriverio";
 import { MobileAgent } from "../MobileAgent.js";
+import { hasLLMProvider, listLLMProviders } from "../llm/registry.js";
+import { VerificationStatus } from "../types.js";
+import { detectImageMimeType } from "../utils/imageProcessor.js";
 import { logger } from "../utils/logger.js";
 import { MOBILE_AGENT_TOOLS } from "./tools.js";
 
@@ -126,7 +130,19 @@ export class MobileAgentMCPServer {
     const apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY;
     const llmProvider = process.env.LLM_PROVIDER || "openai";
 
-    if (!apiKey) {
+    // Optional module that registers custom providers (e.g. an internal gateway)
+    if (process.env.LLM_PROVIDER_MODULE) {
+      require(path.resolve(process.env.LLM_PROVIDER_MODULE));
+    }
+
+    if (!hasLLMProvider(llmProvider)) {
+      throw new Error(
+        `Unknown LLM_PROVIDER "${llmProvider}". Registered providers: ${listLLMProviders().join(", ")}`,
+      );
+    }
+
+    // Self-hosted OpenAI-compatible endpoints usually run without a key
+    if (!apiKey && llmProvider !== "openai-compatible") {
       throw new Error(
         "API key not found. Set OPENAI_API_KEY or ANTHROPIC_API_KEY environment variable.",
       );
@@ -187,7 +203,12 @@ export class MobileAgentMCPServer {
     this.agent = new MobileAgent({
       driver: this.driver,
       apiKey,
-      llmProvider: llmProvider as "openai" | "anthropic",
+      llmProvider,
+      model: process.env.LLM_MODEL,
+      llmOptions: {
+        baseURL: process.env.LLM_BASE_URL,
+        supportsVision: process.env.LLM_SUPPORTS_VISION === "true",
+      },
       verbose: process.env.VERBOSE === "true",
     });
 
@@ -273,17 +294,28 @@ export class MobileAgentMCPServer {
       throw new Error("Session not started. Call mobile_start_session first.");
     }
 
-    const passed = await this.agent.assert(args.condition);
+    const verification = await this.agent.assertDetailed(args.condition);
+
+    let text: string;
+    switch (verification.status) {
+      case VerificationStatus.PASSED:
+        text = `✅ Assertion passed: "${args.condition}"`;
+        break;
+      case VerificationStatus.INCONCLUSIVE:
+        text = `⚠️ Assertion inconclusive: "${args.condition}"`;
+        break;
+      default:
+        text = `❌ Assertion failed: "${args.condition}"`;
+    }
+    if (verification.confidence !== undefined) {
+      text += ` (confidence ${verification.confidence})`;
+    }
+    if (verification.errorMessage) {
+      text += `\n${verification.errorMessage}`;
+    }
 
     return {
-      content: [
-        {
-          type: "text",
-          text: passed
-            ? `✅ Assertion passed: "${args.condition}"`
-            : `❌ Assertion failed: "${args.condition}"`,
-        },
-      ],
+      content: [{ type: "text", text }],
     };
   }
 
@@ -359,7 +391,7 @@ export class MobileAgentMCPServer {
       content.push({
         type: "image",
         data: state.screenshotBase64,
-        mimeType: "image/png",
+        mimeType: detectImageMimeType(state.screenshotBase64),
       });
     }
 
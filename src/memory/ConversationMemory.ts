@@ -0,0 +1,329 @@
+/**
+ * Conversation Memory - what the agent saw, did and verified, replayed to the LLM as chat turns
+ */
+
+import { DecisionCache } from "../cache/DecisionCache";
+import { isTerminalAction } from "../llm/LLMProvider";
+import type {
+  ActionStep,
+  ChatTurn,
+  ConversationHistory,
+  LLMActionResponse,
+  UIState,
+  VerificationPoint,
+  VerificationStatus,
+} from "../types";
+
+export interface ConversationMemoryOptions {
+  maxTokens?: number; // Estimated token budget for the replayed turns (default: 2000)
+  keepRecent?: number; // Latest entries never folded into the summary (default: 6)
+}
+
+/**
+ * Short description of a screen the agent acted on
+ */
+export interface ScreenSummary {
+  activity: string;
+  description: string; // Activity, element count and a sample of visible labels
+  fingerprint?: string; // Hierarchy fingerprint, absent when no elements were visible
+}
+
+/**
+ * An action the agent took and how it turned out
+ */
+export interface ActionMemory {
+  kind: "action";
+  task: string;
+  screen?: ScreenSummary; // Screen the action was decided on
+  action: string;
+  target?: string;
+  parameters?: Record<string, any>;
+  reasoning: string;
+  success: boolean;
+  error?: string;
+  screenChanged?: boolean; // From effect detection, or settled when the next screen is observed
+}
+
+/**
+ * A verification and its verdict
+ */
+export interface VerificationMemory {
+  kind: "verification";
+  condition: string;
+  status: VerificationStatus;
+  confidence?: number;
+  issues?: string[];
+}
+
+export type MemoryEntry = ActionMemory | VerificationMemory;
+
+/**
+ * Counts and highlights of entries folded out of the verbatim history
+ */
+interface FoldedHistory {
+  actions: number;
+  failed: number;
+  unchanged: number;
+  tasks: string[];
+  screens: string[];
+  checks: string[];
+}
+
+const LABEL_SAMPLE = 8; // Visible labels quoted per screen
+const FOLDED_SAMPLE = 6; // Tasks, screens and checks quoted in the summary
+
+/**
+ * Rough token count of a text (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Multi-turn memory of a session: the screens the agent acted on, the actions
+ * with their outcomes (failed, changed the screen or not) and verification
+ * verdicts. Providers replay it as user / assistant turns before the prompt.
+ *
+ * When the turns grow past `maxTokens`, the oldest entries are folded into a
+ * summary turn (counts, tasks, screens visited, checks) until they fit again;
+ * the latest `keepRecent` entries always stay verbatim.
+ */
+export class ConversationMemory implements ConversationHistory {
+  private entries: MemoryEntry[] = [];
+  private folded?: FoldedHistory;
+  private task = "";
+  private maxTokens: number;
+  private keepRecent: number;
+
+  constructor(options: ConversationMemoryOptions = {}) {
+    this.maxTokens = options.maxTokens ?? 2000;
+    this.keepRecent = Math.max(1, options.keepRecent ?? 6);
+  }
+
+  /**
+   * Set the instruction or goal that following actions belong to
+   */
+  startTask(task: string): void {
+    this.task = task;
+  }
+
+  /**
+   * Note the current screen, settling whether the last action changed it
+   */
+  observe(state: UIState): void {
+    const last = this.entries[this.entries.length - 1];
+    if (last?.kind !== "action" || last.screenChanged !== undefined || !last.success) return;
+    const before = last.screen?.fingerprint;
+    const after = summarizeScreen(state).fingerprint;
+    if (before && after) {
+      last.screenChanged = before !== after;
+    }
+  }
+
+  /**
+   * Remember an action taken on the given screen and its outcome
+   */
+  recordAction(response: LLMActionResponse, step: ActionStep, screen?: UIState): void {
+    const { coordinates: _coordinates, ...parameters } = response.parameters || {};
+    this.add({
+      kind: "action",
+      task: this.task,
+      screen: screen ? summarizeScreen(screen) : undefined,
+      action: response.action,
+      target: describeTarget(response, step),
+      parameters: Object.keys(parameters).length > 0 ? parameters : undefined,
+      reasoning: response.reason || response.reasoning,
+      success: step.success,
+      error: step.error,
+      screenChanged: step.screenChanged,
+    });
+  }
+
+  /**
+   * Remember a verification verdict
+   */
+  recordVerification(verification: VerificationPoint): void {
+    this.add({
+      kind: "verification",
+      condition: verification.name,
+      status: verification.status,
+      confidence: verification.confidence,
+      issues: verification.issues?.length ? verification.issues : undefined,
+    });
+  }
+
+  /**
+   * Remembered entries, oldest first (without the summarized ones)
+   */
+  getEntries(): readonly MemoryEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * The memory as chat turns: starts with a user turn and alternates roles
+   */
+  toTurns(): ChatTurn[] {
+    const turns: ChatTurn[] = [];
+    const push = (role: ChatTurn["role"], content: string) => {
+      const last = turns[turns.length - 1];
+      if (last?.role === role) {
+        last.content += `\n${content}`;
+      } else {
+        turns.push({ role, content });
+      }
+    };
+
+    if (this.folded) {
+      push("user", describeFolded(this.folded));
+    }
+
+    let task: string | undefined;
+    for (const entry of this.entries) {
+      if (entry.kind === "verification") {
+        push("user", describeVerification(entry));
+        continue;
+      }
+
+      const lines: string[] = [];
+      if (entry.task !== task) {
+        lines.push(`Task: ${entry.task}`);
+        task = entry.task;
+      }
+      lines.push(`Screen: ${entry.screen?.description || "unknown"}`);
+      push("user", lines.join("\n"));
+      push("assistant", describeDecision(entry));
+      if (!isTerminalAction(entry.action)) {
+        push("user", describeOutcome(entry));
+      }
+    }
+    return turns;
+  }
+
+  /**
+   * Estimated tokens of the turns sent to the LLM
+   */
+  estimateTokens(): number {
+    return this.toTurns().reduce((sum, turn) => sum + estimateTokens(turn.content), 0);
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.folded = undefined;
+    this.task = "";
+  }
+
+  private add(entry: MemoryEntry): void {
+    this.entries.push(entry);
+    while (this.entries.length > this.keepRecent && this.estimateTokens() > this.maxTokens) {
+      this.fold(this.entries.shift() as MemoryEntry);
+    }
+  }
+
+  /**
+   * Move an entry into the summary
+   */
+  private fold(entry: MemoryEntry): void {
+    if (!this.folded) {
+      this.folded = { actions: 0, failed: 0, unchanged: 0, tasks: [], screens: [], checks: [] };
+    }
+    const folded = this.folded;
+
+    if (entry.kind === "verification") {
+      keepLatest(folded.checks, `"${entry.condition}" ${entry.status}`);
+      return;
+    }
+    folded.actions++;
+    if (!entry.success) folded.failed++;
+    if (entry.screenChanged === false) folded.unchanged++;
+    if (folded.tasks[folded.tasks.length - 1] !== entry.task) {
+      keepLatest(folded.tasks, entry.task);
+    }
+    const activity = entry.screen?.activity;
+    if (activity && folded.screens[folded.screens.length - 1] !== activity) {
+      keepLatest(folded.screens, activity);
+    }
+  }
+}
+
+/**
+ * Summarize a screen as its activity, element count and a sample of labels
+ */
+export function summarizeScreen(state: UIState): ScreenSummary {
+  const visible = state.elements.filter((e) => e.visible);
+  const labels = visible
+    .map((e) => (e.text || e.contentDesc || "").trim())
+    .filter((label) => label.length > 0);
+  const sample = [...new Set(labels)].slice(0, LABEL_SAMPLE).map((label) => `"${label}"`);
+
+  let description = `${state.activity} (${visible.length} visible elements)`;
+  if (sample.length > 0) {
+    description += `: ${sample.join(", ")}`;
+  }
+  return {
+    activity: state.activity,
+    description,
+    fingerprint: visible.length > 0 ? DecisionCache.fingerprint(state.elements) : undefined,
+  };
+}
+
+/**
+ * What an action was aimed at: the element, tag, grid cell or screen point
+ */
+function describeTarget(response: LLMActionResponse, step: ActionStep): string | undefined {
+  const element = step.targetElement;
+  if (element) {
+    const label = element.text || element.contentDesc || element.resourceId || "";
+    return `${element.elementType} "${label}" [${element.elementId}]`;
+  }
+  if (response.gridPosition) return `grid cell ${response.gridPosition}`;
+  if (response.element) return response.element;
+  if (response.coordinates) return `(${response.coordinates.x}, ${response.coordinates.y})`;
+  return undefined;
+}
+
+function describeDecision(entry: ActionMemory): string {
+  return JSON.stringify({
+    action: entry.action,
+    target: entry.target,
+    parameters: entry.parameters,
+    reasoning: entry.reasoning,
+  });
+}
+
+function describeOutcome(entry: ActionMemory): string {
+  if (!entry.success) {
+    return `Result: failed${entry.error ? ` (${entry.error})` : ""}`;
+  }
+  if (entry.screenChanged === undefined) return "Result: succeeded";
+  return `Result: succeeded, ${entry.screenChanged ? "the screen changed" : "the screen did not change"}`;
+}
+
+function describeVerification(entry: VerificationMemory): string {
+  const confidence = entry.confidence !== undefined ? ` (confidence ${entry.confidence})` : "";
+  const issues = entry.issues ? `: ${entry.issues.join("; ")}` : "";
+  return `Checked "${entry.condition}": ${entry.status}${confidence}${issues}`;
+}
+
+function describeFolded(folded: FoldedHistory): string {
+  const lines = [
+    `Earlier in this session (summarized): ${folded.actions} actions, ${folded.failed} failed, ${folded.unchanged} left the screen unchanged.`,
+  ];
+  if (folded.tasks.length > 0) {
+    lines.push(`Tasks: ${folded.tasks.map((t) => `"${t.split("\n")[0]}"`).join(", ")}`);
+  }
+  if (folded.screens.length > 0) {
+    lines.push(`Screens visited: ${folded.screens.join(" → ")}`);
+  }
+  if (folded.checks.length > 0) {
+    lines.push(`Checks: ${folded.checks.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Append to a list, dropping the oldest items beyond the sample size
+ */
+function keepLatest(list: string[], item: string): void {
+  list.push(item);
+  if (list.length > FOLDED_SAMPLE) list.shift();
+}
@@ -4,11 +4,102 @@
 
 import type { Browser } from "webdriverio";
 import { parseString } from "xml2js";
-import { type UIElement, UIElementType, type UIState } from "../types";
-import { overlayGridLines, overlayNumericTags } from "../utils/imageProcessor";
+import {
+  type ElementLocator,
+  type ScreenArea,
+  type SystemRegion,
+  type SystemRegionConfig,
+  type SystemRegionKind,
+  type UIElement,
+  UIElementType,
+  type UIState,
+} from "../types";
+import {
+  type ImageEncodingOptions,
+  type ImageRegion,
+  type TagOverlayOptions,
+  cropImage,
+  encodeForVision,
+  getImageSize,
+  maskImageRegions,
+  overlayGridLines,
+  overlayNumericTags,
+  zoomImage,
+} from "../utils/imageProcessor";
 import { logger } from "../utils/logger";
 
+type Platform = "android" | "ios";
+
+/**
+ * XCUITest element types mapped to SDK element types
+ */
+const IOS_ELEMENT_TYPES: Record<string, UIElementType> = {
+  Button: UIElementType.BUTTON,
+  Link: UIElementType.BUTTON,
+  StaticText: UIElementType.TEXT_VIEW,
+  TextField: UIElementType.EDIT_TEXT,
+  SecureTextField: UIElementType.EDIT_TEXT,
+  SearchField: UIElementType.EDIT_TEXT,
+  TextView: UIElementType.EDIT_TEXT,
+  Image: UIElementType.IMAGE_VIEW,
+  Icon: UIElementType.IMAGE_VIEW,
+  Table: UIElementType.LIST_VIEW,
+  CollectionView: UIElementType.RECYCLER_VIEW,
+  WebView: UIElementType.WEBVIEW,
+  Alert: UIElementType.DIALOG,
+  Sheet: UIElementType.DIALOG,
+  Switch: UIElementType.TOGGLE,
+  Toggle: UIElementType.TOGGLE,
+  Picker: UIElementType.SPINNER,
+  PickerWheel: UIElementType.SPINNER,
+};
+
+/**
+ * XCUITest element types that accept taps (XCUITest exposes no "clickable" attribute)
+ */
+const IOS_INTERACTIVE_TYPES = new Set([
+  "Button",
+  "Link",
+  "Cell",
+  "Switch",
+  "Toggle",
+  "Slider",
+  "Stepper",
+  "SegmentedControl",
+  "TextField",
+  "SecureTextField",
+  "SearchField",
+  "TextView",
+  "PickerWheel",
+  "Icon",
+  "Key",
+  "MenuItem",
+  "Tab",
+]);
+
+const IOS_SCROLLABLE_TYPES = new Set(["ScrollView", "Table", "CollectionView", "WebView"]);
+
+const IOS_EDITABLE_TYPES = new Set(["TextField", "SecureTextField", "SearchField", "TextView"]);
+
+const SYSTEM_REGION_KINDS: SystemRegionKind[] = ["statusBar", "navigationBar", "keyboard"];
+
+type Bounds = NonNullable<UIElement["bounds"]>;
+
 export class UIObserver {
+  private systemRegions: SystemRegionConfig;
+  private encoding: ImageEncodingOptions;
+  private tagOverlay: TagOverlayOptions;
+
+  constructor(
+    systemRegions: SystemRegionConfig = {},
+    encoding: ImageEncodingOptions = {},
+    tagOverlay: TagOverlayOptions = {},
+  ) {
+    this.systemRegions = systemRegions;
+    this.encoding = encoding;
+    this.tagOverlay = tagOverlay;
+  }
+
   /**
    * Get the current UI state from the driver
    */
@@ -19,10 +110,11 @@ export class UIObserver {
   ): Promise<UIState> {
     try {
       const pageSource = await driver.getPageSource();
-      const activity = await this.getCurrentActivity(driver);
       const deviceInfo = await this.getDeviceInfo(driver);
+      const platform = this.detectPlatform(pageSource, deviceInfo);
 
-      const elements = await this.parseUIHierarchy(pageSource);
+      const elements = await this.parseUIHierarchy(pageSource, platform);
+      const activity = await this.getCurrentActivity(driver, platform, elements);
 
       const state: UIState = {
         activity,
@@ -37,25 +129,65 @@ export class UIObserver {
         const screenshotBase64 = await this.captureScreenshotAsBase64(driver);
         state.screenshotBase64 = screenshotBase64;
 
+        const windowSize =
+          captureMode === "grid" || (this.systemRegions.mode ?? "off") !== "off"
+            ? await driver.getWindowSize()
+            : captureMode === "tagged"
+              ? await this.tryGetWindowSize(driver)
+              : undefined;
+        let taggable = elements;
+        if (windowSize && (this.systemRegions.mode ?? "off") !== "off") {
+          const regions = await this.detectSystemRegions(driver, elements, platform);
+          if (regions.length > 0) {
+            const { image, viewport } = await this.hideSystemRegions(
+              screenshotBase64,
+              regions,
+              windowSize,
+            );
+            state.screenshotBase64 = image;
+            state.systemRegions = regions;
+            state.screenshotViewport = viewport;
+            taggable = elements.filter((e) => !regions.some((r) => containsCenter(r.bounds, e)));
+            logger.debug(
+              `Hid ${regions.map((r) => r.kind).join(", ")} in the screenshot (${this.systemRegions.mode})`,
+            );
+          }
+        }
+        const viewport = state.screenshotViewport;
+
         if (captureMode === "tagged") {
-          const { image, mapping } = await overlayNumericTags(screenshotBase64, elements);
+          const area = viewport || (windowSize && { x: 0, y: 0, ...windowSize });
+          const { image, mapping } = await overlayNumericTags(state.screenshotBase64, taggable, {
+            ...this.tagOverlay,
+            origin: area,
+            logicalWidth: area?.width,
+            logicalHeight: area?.height,
+          });
           state.screenshotBase64 = image;
           state.tagMapping = mapping;
           logger.debug(`Tagged screenshot with ${mapping.size} elements`);
-        } else if (captureMode === "grid") {
-          const windowSize = await driver.getWindowSize();
+        } else if (captureMode === "grid" && windowSize) {
+          const area = viewport || { x: 0, y: 0, ...windowSize };
           const { image, gridMap, scaleFactor } = await overlayGridLines(
-            screenshotBase64,
+            state.screenshotBase64,
             gridSize,
-            windowSize.width,
-            windowSize.height,
+            area.width,
+            area.height,
           );
+          // Cell centers are relative to the cropped area; shift them back onto the window
+          for (const center of gridMap.values()) {
+            center.x += area.x;
+            center.y += area.y;
+          }
           state.screenshotBase64 = image;
           state.gridMap = gridMap; // Already scaled to logical coordinates
           logger.debug(
             `Created grid overlay with ${gridMap.size} cells (scale: ${scaleFactor.x.toFixed(2)}x${scaleFactor.y.toFixed(2)})`,
           );
         }
+
+        // Resize last: grid cells and tags are already mapped to window coordinates
+        state.screenshotBase64 = await this.encode(state.screenshotBase64);
       }
 
       logger.debug(`Current state: ${activity}, ${elements.length} elements`);
@@ -66,6 +198,79 @@ export class UIObserver {
     }
   }
 
+  /**
+   * Zoom into the window around a point: crop the screenshot to 1/zoom of
+   * `within` (the whole window by default), centered on the point as far as
+   * the edges allow, enlarge it and overlay a grid whose cells map to window
+   * coordinates. Feeding the returned area back in zooms in further.
+   */
+  async captureZoomedGrid(
+    driver: Browser,
+    center: { x: number; y: number },
+    options: { zoom?: number; gridSize?: number; within?: ScreenArea } = {},
+  ): Promise<{
+    screenshotBase64: string;
+    gridMap: Map<string, { x: number; y: number }>;
+    area: ScreenArea;
+  }> {
+    try {
+      const { zoom = 3, gridSize = 5 } = options;
+      const windowSize = await driver.getWindowSize();
+      const within = options.within || { x: 0, y: 0, ...windowSize };
+      const screenshotBase64 = await this.captureScreenshotAsBase64(driver);
+      const imageSize = await getImageSize(screenshotBase64);
+      const scaleX = imageSize.width / windowSize.width;
+      const scaleY = imageSize.height / windowSize.height;
+
+      const width = within.width / zoom;
+      const height = within.height / zoom;
+      const clamp = (value: number, min: number, max: number) =>
+        Math.min(Math.max(value, min), max);
+      const x = clamp(center.x - width / 2, within.x, within.x + within.width - width);
+      const y = clamp(center.y - height / 2, within.y, within.y + within.height - height);
+
+      const crop: ImageRegion = {
+        x1: Math.max(0, Math.floor(x * scaleX)),
+        y1: Math.max(0, Math.floor(y * scaleY)),
+        x2: Math.min(imageSize.width, Math.ceil((x + width) * scaleX)),
+        y2: Math.min(imageSize.height, Math.ceil((y + height) * scaleY)),
+      };
+      // The window area actually shown, after rounding to whole pixels
+      const area: ScreenArea = {
+        x: crop.x1 / scaleX,
+        y: crop.y1 / scaleY,
+        width: (crop.x2 - crop.x1) / scaleX,
+        height: (crop.y2 - crop.y1) / scaleY,
+      };
+
+      const zoomed = await zoomImage(screenshotBase64, crop, zoom);
+      const { image, gridMap } = await overlayGridLines(zoomed, gridSize, area.width, area.height);
+      for (const cell of gridMap.values()) {
+        cell.x = Math.floor(cell.x + area.x);
+        cell.y = Math.floor(cell.y + area.y);
+      }
+
+      logger.debug(
+        `Zoomed ${zoom}x into (${Math.round(area.x)}, ${Math.round(area.y)}) ${Math.round(area.width)}x${Math.round(area.height)}`,
+      );
+      return { screenshotBase64: await this.encode(image), gridMap, area };
+    } catch (error) {
+      logger.error("Failed to capture zoomed grid:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the configured size and format to a screenshot for the LLM
+   */
+  private async encode(screenshotBase64: string): Promise<string> {
+    if (!this.encoding.maxLongEdge && (this.encoding.format ?? "png") === "png") {
+      return screenshotBase64;
+    }
+    const { image } = await encodeForVision(screenshotBase64, this.encoding);
+    return image;
+  }
+
   /**
    * Capture screenshot as base64 string
    */
@@ -88,7 +293,12 @@ export class UIObserver {
   ): Promise<{ screenshot: string; tagMapping: Map<number, UIElement> }> {
     try {
       const screenshotBase64 = await this.captureScreenshotAsBase64(driver);
-      const result = await overlayNumericTags(screenshotBase64, elements);
+      const windowSize = await this.tryGetWindowSize(driver);
+      const result = await overlayNumericTags(screenshotBase64, elements, {
+        ...this.tagOverlay,
+        logicalWidth: windowSize?.width,
+        logicalHeight: windowSize?.height,
+      });
       return {
         screenshot: result.image,
         tagMapping: result.mapping,
@@ -126,9 +336,155 @@ export class UIObserver {
   }
 
   /**
-   * Parse UI hierarchy from XML
+   * Status bar, navigation bar and soft keyboard in window coordinates. On
+   * Android the bars come from `mobile: getSystemBars`, falling back to their
+   * background views; keyboards are found in the hierarchy (Android only lists
+   * the IME window when the page source spans all windows).
+   */
+  async detectSystemRegions(
+    driver: Browser,
+    elements: UIElement[],
+    platform: Platform = "android",
+  ): Promise<SystemRegion[]> {
+    const kinds = new Set(this.systemRegions.regions || SYSTEM_REGION_KINDS);
+    const regions: SystemRegion[] = [];
+    const add = (kind: SystemRegionKind, bounds?: Bounds) => {
+      if (kinds.has(kind) && bounds && bounds.x2 > bounds.x1 && bounds.y2 > bounds.y1) {
+        regions.push({ kind, bounds });
+      }
+    };
+
+    if (platform === "ios") {
+      add(
+        "statusBar",
+        unionBounds(elements, (e) => e.className === "XCUIElementTypeStatusBar"),
+      );
+      add(
+        "keyboard",
+        unionBounds(elements, (e) => e.className === "XCUIElementTypeKeyboard"),
+      );
+      return regions;
+    }
+
+    const bars = await this.getAndroidSystemBars(driver);
+    add(
+      "statusBar",
+      bars.statusBar ||
+        unionBounds(elements, (e) => e.resourceId === "android:id/statusBarBackground"),
+    );
+    add(
+      "navigationBar",
+      bars.navigationBar ||
+        unionBounds(elements, (e) => e.resourceId === "android:id/navigationBarBackground"),
+    );
+    add(
+      "keyboard",
+      unionBounds(
+        elements,
+        (e) => /inputmethod/i.test(e.resourceId || "") || /KeyboardView$/.test(e.className || ""),
+      ),
+    );
+    return regions;
+  }
+
+  /**
+   * Visible system bars reported by UiAutomator2, empty when unsupported
+   */
+  private async getAndroidSystemBars(
+    driver: Browser,
+  ): Promise<{ statusBar?: Bounds; navigationBar?: Bounds }> {
+    try {
+      const bars: any = await driver.execute("mobile: getSystemBars");
+      const toBounds = (bar: any): Bounds | undefined =>
+        bar?.visible && bar.width > 0 && bar.height > 0
+          ? { x1: bar.x, y1: bar.y, x2: bar.x + bar.width, y2: bar.y + bar.height }
+          : undefined;
+      return { statusBar: toBounds(bars?.statusBar), navigationBar: toBounds(bars?.navigationBar) };
+    } catch (error) {
+      logger.debug("mobile: getSystemBars unavailable, using the hierarchy:", error);
+      return {};
+    }
+  }
+
+  /**
+   * Mask the system regions, or crop the ones along the screen edges off the
+   * screenshot (masking any others). Returns the window area still shown
+   * when cropped, so positions on the image can be mapped back.
+   */
+  private async hideSystemRegions(
+    screenshotBase64: string,
+    regions: SystemRegion[],
+    windowSize: { width: number; height: number },
+  ): Promise<{ image: string; viewport?: ScreenArea }> {
+    const imageSize = await getImageSize(screenshotBase64);
+    const scaleX = imageSize.width / windowSize.width;
+    const scaleY = imageSize.height / windowSize.height;
+    const toPixels = (b: Bounds): ImageRegion => ({
+      x1: Math.max(0, Math.floor(b.x1 * scaleX)),
+      y1: Math.max(0, Math.floor(b.y1 * scaleY)),
+      x2: Math.min(imageSize.width, Math.ceil(b.x2 * scaleX)),
+      y2: Math.min(imageSize.height, Math.ceil(b.y2 * scaleY)),
+    });
+    const color = this.systemRegions.maskColor || "#000000";
+
+    if (this.systemRegions.mode !== "crop") {
+      const image = await maskImageRegions(
+        screenshotBase64,
+        regions.map((r) => toPixels(r.bounds)),
+        color,
+      );
+      return { image };
+    }
+
+    // Shrink the window from the edge each region is closest to
+    const area = { x1: 0, y1: 0, x2: windowSize.width, y2: windowSize.height };
+    for (const { bounds } of regions) {
+      const distances = {
+        top: bounds.y1,
+        bottom: windowSize.height - bounds.y2,
+        left: bounds.x1,
+        right: windowSize.width - bounds.x2,
+      };
+      const edge = (Object.keys(distances) as Array<keyof typeof distances>).reduce((a, b) =>
+        distances[b] < distances[a] ? b : a,
+      );
+      if (edge === "top") area.y1 = Math.max(area.y1, bounds.y2);
+      if (edge === "bottom") area.y2 = Math.min(area.y2, bounds.y1);
+      if (edge === "left") area.x1 = Math.max(area.x1, bounds.x2);
+      if (edge === "right") area.x2 = Math.min(area.x2, bounds.x1);
+    }
+    if (area.x2 <= area.x1 || area.y2 <= area.y1) {
+      logger.warn("System regions cover the whole screen, sending it uncropped");
+      return { image: screenshotBase64 };
+    }
+
+    const crop = toPixels(area);
+    const viewport: ScreenArea = {
+      x: crop.x1 / scaleX,
+      y: crop.y1 / scaleY,
+      width: (crop.x2 - crop.x1) / scaleX,
+      height: (crop.y2 - crop.y1) / scaleY,
+    };
+    return { image: await cropImage(screenshotBase64, crop), viewport };
+  }
+
+  /**
+   * Determine which automation backend produced the page source
    */
-  private async parseUIHierarchy(pageSource: string): Promise<UIElement[]> {
+  private detectPlatform(pageSource: string, deviceInfo: Record<string, any>): Platform {
+    const platform = String(deviceInfo.platform || "").toLowerCase();
+    if (platform === "ios") return "ios";
+    if (platform === "android") return "android";
+    return pageSource?.includes("<XCUIElementType") ? "ios" : "android";
+  }
+
+  /**
+   * Parse UI hierarchy from XML (UiAutomator2 or XCUITest page source)
+   */
+  private async parseUIHierarchy(
+    pageSource: string,
+    platform: Platform = "android",
+  ): Promise<UIElement[]> {
     const elements: UIElement[] = [];
 
     if (!pageSource) {
@@ -143,7 +499,10 @@ export class UIObserver {
         if (!node) return;
 
         elementId++;
-        const element = this.parseElement(node.$, elementId.toString());
+        const element =
+          platform === "ios"
+            ? this.parseIOSElement(node.$, elementId.toString())
+            : this.parseElement(node.$, elementId.toString());
         elements.push(element);
 
         // Recursively process children
@@ -157,11 +516,11 @@ export class UIObserver {
         }
       };
 
-      // Start traversal from root
-      const root = parsedXml.hierarchy || parsedXml;
+      // Start traversal from root (XCUITest wraps the tree in <AppiumAUT>)
+      const root = parsedXml.hierarchy || parsedXml.AppiumAUT || parsedXml;
       if (root) {
         for (const key in root) {
-          if (key !== "$") {
+          if (key !== "$" && key !== "_") {
             const nodes = Array.isArray(root[key]) ? root[key] : [root[key]];
             for (const nodeItem of nodes) {
               traverse(nodeItem);
@@ -217,6 +576,39 @@ export class UIObserver {
     };
   }
 
+  /**
+   * Parse a single XCUITest element, normalizing XCUIElementType* nodes into UIElement
+   */
+  private parseIOSElement(attribs: any, elementId: string): UIElement {
+    const attrs = attribs ?? {};
+
+    const className: string = attrs.type || "";
+    const shortType = className.replace(/^XCUIElementType/, "");
+    const editable = IOS_EDITABLE_TYPES.has(shortType);
+
+    // Text inputs carry typed text in "value"; other elements are described by "label"
+    const text = editable ? attrs.value || "" : attrs.label || attrs.value || "";
+
+    return {
+      elementId,
+      text,
+      resourceId: attrs.name || undefined,
+      className,
+      contentDesc: attrs.label || undefined,
+      bounds: this.parseRect(attrs),
+      elementType: IOS_ELEMENT_TYPES[shortType] ?? UIElementType.UNKNOWN,
+      clickable:
+        IOS_INTERACTIVE_TYPES.has(shortType) ||
+        (shortType === "Other" && attrs.accessible === "true"),
+      scrollable: IOS_SCROLLABLE_TYPES.has(shortType),
+      focusable: editable,
+      longClickable: false,
+      checked: attrs.selected === "true" || (shortType === "Switch" && attrs.value === "1"),
+      enabled: attrs.enabled !== "false",
+      visible: attrs.visible !== "false",
+    };
+  }
+
   /**
    * Infer element type from class name
    */
@@ -261,9 +653,33 @@ export class UIObserver {
   }
 
   /**
-   * Get current activity name
+   * Parse XCUITest x/y/width/height attributes into bounds
+   */
+  private parseRect(attrs: any): { x1: number; y1: number; x2: number; y2: number } | undefined {
+    const x = Number.parseInt(attrs.x, 10);
+    const y = Number.parseInt(attrs.y, 10);
+    const width = Number.parseInt(attrs.width, 10);
+    const height = Number.parseInt(attrs.height, 10);
+
+    if ([x, y, width, height].some((n) => Number.isNaN(n))) {
+      return undefined;
+    }
+
+    return { x1: x, y1: y, x2: x + width, y2: y + height };
+  }
+
+  /**
+   * Get current activity name (Android) or foreground bundle id (iOS)
    */
-  private async getCurrentActivity(driver: Browser): Promise<string> {
+  private async getCurrentActivity(
+    driver: Browser,
+    platform: Platform = "android",
+    elements: UIElement[] = [],
+  ): Promise<string> {
+    if (platform === "ios") {
+      return await this.getActiveIOSApp(driver, elements);
+    }
+
     try {
       return await driver.getCurrentActivity();
     } catch (error) {
@@ -272,6 +688,38 @@ export class UIObserver {
     }
   }
 
+  /**
+   * iOS has no activities; identify the screen by the foreground app instead
+   */
+  private async getActiveIOSApp(driver: Browser, elements: UIElement[]): Promise<string> {
+    try {
+      const info: any = await driver.execute("mobile: activeAppInfo");
+      if (info?.bundleId) {
+        return info.bundleId;
+      }
+    } catch (error) {
+      logger.debug("mobile: activeAppInfo unavailable, using application node:", error);
+    }
+
+    const app = elements.find((e) => e.className === "XCUIElementTypeApplication");
+    return app?.resourceId || app?.text || "Unknown";
+  }
+
+  /**
+   * Window size when the driver reports it. Only scales the numeric tags, which
+   * are sized for the screenshot without it.
+   */
+  private async tryGetWindowSize(
+    driver: Browser,
+  ): Promise<{ width: number; height: number } | undefined> {
+    try {
+      return await driver.getWindowSize();
+    } catch (error) {
+      logger.debug("Window size unavailable, sizing tags for the screenshot:", error);
+      return undefined;
+    }
+  }
+
   /**
    * Get device information
    */
@@ -317,4 +765,50 @@ export class UIObserver {
   findElementById(elements: UIElement[], resourceId: string): UIElement | undefined {
     return elements.find((e) => e.resourceId?.includes(resourceId));
   }
+
+  /**
+   * Find all elements matching a locator exactly
+   */
+  findElements(elements: UIElement[], locator: ElementLocator): UIElement[] {
+    const textContains = locator.textContains?.toLowerCase();
+    return elements.filter(
+      (e) =>
+        (locator.text === undefined || e.text === locator.text) &&
+        (textContains === undefined || (e.text || "").toLowerCase().includes(textContains)) &&
+        (locator.resourceId === undefined ||
+          e.resourceId === locator.resourceId ||
+          e.resourceId?.endsWith(`:id/${locator.resourceId}`)) &&
+        (locator.contentDesc === undefined || e.contentDesc === locator.contentDesc) &&
+        (locator.className === undefined || e.className === locator.className),
+    );
+  }
+}
+
+/**
+ * Bounding box of the elements matching a predicate
+ */
+function unionBounds(
+  elements: UIElement[],
+  predicate: (element: UIElement) => boolean,
+): Bounds | undefined {
+  let union: Bounds | undefined;
+  for (const { bounds } of elements.filter((e) => e.visible && predicate(e))) {
+    if (!bounds) continue;
+    union = union
+      ? {
+          x1: Math.min(union.x1, bounds.x1),
+          y1: Math.min(union.y1, bounds.y1),
+          x2: Math.max(union.x2, bounds.x2),
+          y2: Math.max(union.y2, bounds.y2),
+        }
+      : { ...bounds };
+  }
+  return union;
+}
+
+function containsCenter(bounds: Bounds, element: UIElement): boolean {
+  if (!element.bounds) return false;
+  const x = (element.bounds.x1 + element.bounds.x2) / 2;
+  const y = (element.bounds.y1 + element.bounds.y2) / 2;
+  return x >= bounds.x1 && x < bounds.x2 && y >= bounds.y1 && y < bounds.y2;
 }
@@ -0,0 +1,181 @@
+/**
+ * HTML Reporter - renders a TestResult as a self-contained HTML page
+ */
+
+import {
+  type ActionStep,
+  type TestResult,
+  type UsageSummary,
+  type VerificationPoint,
+  VerificationStatus,
+} from "../types";
+import { detectImageMimeType } from "../utils/imageProcessor";
+import { logger } from "../utils/logger";
+import { escapeXml as escapeHtml, stepDurations, writeReport } from "./common";
+
+export interface HtmlReportOptions {
+  title?: string; // Page title (default: "Mobile Agent Report")
+  includeScreenshots?: boolean; // Inline before/after screenshots (default: true)
+}
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem; color: #1f2328; background: #f6f8fa; }
+  h1 { margin-bottom: 0.25rem; }
+  .summary { display: flex; gap: 1.5rem; margin: 1rem 0 2rem; flex-wrap: wrap; }
+  .summary div { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.5rem 1rem; }
+  .badge { display: inline-block; border-radius: 999px; padding: 0 0.6rem; font-size: 0.8rem; font-weight: 600; }
+  .passed { background: #dafbe1; color: #1a7f37; }
+  .failed, .error { background: #ffebe9; color: #cf222e; }
+  .skipped { background: #eaeef2; color: #57606a; }
+  .inconclusive { background: #fff8c5; color: #9a6700; }
+  .tier { background: #ddf4ff; color: #0969da; }
+  .ineffective { background: #fff8c5; color: #9a6700; }
+  ol.timeline { list-style: none; padding: 0; border-left: 3px solid #d0d7de; margin-left: 0.5rem; }
+  ol.timeline > li { position: relative; margin: 0 0 1.5rem 1.25rem; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; }
+  ol.timeline > li::before { content: ""; position: absolute; left: -1.75rem; top: 1rem; width: 0.75rem; height: 0.75rem; border-radius: 50%; background: #1a7f37; }
+  ol.timeline > li.failed::before { background: #cf222e; }
+  .step-header { display: flex; gap: 0.5rem; align-items: center; flex-wrap: wrap; }
+  .meta { color: #57606a; font-size: 0.85rem; }
+  .reasoning { margin: 0.5rem 0; }
+  .step-error { color: #cf222e; }
+  .screens { display: flex; gap: 1rem; margin-top: 0.5rem; }
+  .screens figure { margin: 0; }
+  .screens img { max-height: 420px; max-width: 240px; border: 1px solid #d0d7de; border-radius: 4px; }
+  table { border-collapse: collapse; width: 100%; background: #fff; }
+  th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; }
+`;
+
+/**
+ * Renders a single-file report with a step timeline (vision tier, LLM reasoning,
+ * confidence, before/after screenshots) and a table of verification results.
+ */
+export class HtmlReporter {
+  private title: string;
+  private includeScreenshots: boolean;
+
+  constructor(options: HtmlReportOptions = {}) {
+    this.title = options.title || "Mobile Agent Report";
+    this.includeScreenshots = options.includeScreenshots ?? true;
+  }
+
+  render(result: TestResult): string {
+    const durations = stepDurations(result);
+    const failedSteps = result.steps.filter((s) => !s.success).length;
+    const passedChecks = result.verificationResults.filter(
+      (v) => v.status === VerificationStatus.PASSED,
+    ).length;
+
+    const steps = result.steps.map((step, i) => this.renderStep(step, i, durations[i])).join("\n");
+    const verifications = result.verificationResults.map((v) => this.renderVerification(v));
+    const usage: UsageSummary | undefined = result.metadata?.usage?.total;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(this.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(this.title)}</h1>
+<p class="meta">${escapeHtml(result.task)}</p>
+<div class="summary">
+  <div>Status: ${this.badge(result.success ? "passed" : "failed")}</div>
+  <div>Started: ${escapeHtml(new Date(result.startTime).toISOString())}</div>
+  <div>Duration: ${result.durationSeconds.toFixed(1)}s</div>
+  <div>Steps: ${result.steps.length} (${failedSteps} failed)</div>
+  <div>Verifications: ${passedChecks}/${result.verificationResults.length} passed</div>${
+    usage
+      ? `
+  <div>LLM: ${this.usageLabel(usage)}</div>`
+      : ""
+  }
+</div>
+<h2>Steps</h2>
+${steps ? `<ol class="timeline">\n${steps}\n</ol>` : "<p>No steps recorded.</p>"}
+<h2>Verifications</h2>
+${
+  verifications.length
+    ? `<table>
+<thead><tr><th>Condition</th><th>Type</th><th>Status</th><th>Confidence</th><th>Details</th></tr></thead>
+<tbody>
+${verifications.join("\n")}
+</tbody>
+</table>`
+    : "<p>No verifications recorded.</p>"
+}
+</body>
+</html>
+`;
+  }
+
+  writeToFile(result: TestResult, filePath: string): void {
+    writeReport(filePath, this.render(result));
+    logger.info(`Wrote HTML report to ${filePath}`);
+  }
+
+  private renderStep(step: ActionStep, index: number, seconds: number): string {
+    const status = step.success ? "passed" : "failed";
+    const header = [
+      `<strong>${index + 1}. ${escapeHtml(step.actionType)}</strong>`,
+      this.badge(status),
+      step.method ? `<span class="badge tier">${escapeHtml(step.method)}</span>` : "",
+      step.ineffective ? '<span class="badge ineffective">no effect</span>' : "",
+      step.confidence !== undefined
+        ? `<span class="meta">confidence ${Math.round(step.confidence * 100)}%</span>`
+        : "",
+      step.usage ? `<span class="meta">${this.usageLabel(step.usage)}</span>` : "",
+      `<span class="meta">${escapeHtml(new Date(step.timestamp).toISOString())} · ${seconds.toFixed(1)}s</span>`,
+    ].filter(Boolean);
+
+    const body = [
+      `<div class="step-header">${header.join(" ")}</div>`,
+      `<p class="reasoning">${escapeHtml(step.reasoning || step.description)}</p>`,
+    ];
+    if (step.targetElement) {
+      const el = step.targetElement;
+      const label = el.resourceId || el.contentDesc || el.text || el.className || "";
+      body.push(`<p class="meta">Target: #${escapeHtml(el.elementId)} ${escapeHtml(label)}</p>`);
+    }
+    if (step.error) {
+      body.push(`<p class="step-error">${escapeHtml(step.error)}</p>`);
+    }
+    if (this.includeScreenshots && (step.screenshotBefore || step.screenshotAfter)) {
+      body.push(
+        `<div class="screens">${this.screenshot("Before", step.screenshotBefore)}${this.screenshot("After", step.screenshotAfter)}</div>`,
+      );
+    }
+
+    return `<li class="${status}">\n${body.join("\n")}\n</li>`;
+  }
+
+  private renderVerification(verification: VerificationPoint): string {
+    const confidence =
+      verification.confidence !== undefined ? `${Math.round(verification.confidence * 100)}%` : "";
+    const details = [
+      ...(verification.assertions || []).map((a) => `${a.passed ? "✓" : "✗"} ${a.description}`),
+      verification.errorMessage,
+    ]
+      .filter(Boolean)
+      .map((line) => escapeHtml(line))
+      .join("<br>");
+    const type = verification.method
+      ? `${verification.assertionType} (${verification.method})`
+      : verification.assertionType;
+    return `<tr><td>${escapeHtml(verification.name)}</td><td>${escapeHtml(type)}</td><td>${this.badge(verification.status)}</td><td>${confidence}</td><td>${details}</td></tr>`;
+  }
+
+  private screenshot(caption: string, base64?: string): string {
+    if (!base64) return "";
+    return `<figure><img alt="${caption} screenshot" src="data:${detectImageMimeType(base64)};base64,${escapeHtml(base64)}"><figcaption class="meta">${caption}</figcaption></figure>`;
+  }
+
+  private usageLabel(usage: UsageSummary): string {
+    const tokens = usage.inputTokens + usage.outputTokens;
+    return `${usage.calls} call(s) · ${tokens} tokens · $${usage.estimatedCostUsd.toFixed(4)}`;
+  }
+
+  private badge(status: string): string {
+    return `<span class="badge ${escapeHtml(status)}">${escapeHtml(status)}</span>`;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * JUnit Reporter - renders a TestResult as JUnit XML for CI test tabs
+ */
+
+import {
+  type ActionStep,
+  type TestResult,
+  type UsageSummary,
+  type VerificationPoint,
+  VerificationStatus,
+} from "../types";
+import { logger } from "../utils/logger";
+import { escapeXml, stepDurations, writeReport } from "./common";
+
+export interface JUnitReportOptions {
+  suiteName?: string; // Prefix for suite names and test case classnames (default: "mobile-agent")
+}
+
+interface SuiteCounts {
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+}
+
+/**
+ * Reports every ActionStep and every verification result as a JUnit test case:
+ * steps go into a "steps" suite, assertions into a "verifications" suite.
+ */
+export class JUnitReporter {
+  private suiteName: string;
+
+  constructor(options: JUnitReportOptions = {}) {
+    this.suiteName = options.suiteName || "mobile-agent";
+  }
+
+  render(result: TestResult): string {
+    const durations = stepDurations(result);
+    const timestamp = new Date(result.startTime).toISOString();
+
+    const stepCases = result.steps.map((step, i) => this.renderStep(step, i, durations[i]));
+    const stepCounts: SuiteCounts = {
+      tests: result.steps.length,
+      failures: result.steps.filter((s) => !s.success).length,
+      errors: 0,
+      skipped: 0,
+    };
+
+    const verificationCases = result.verificationResults.map((v) => this.renderVerification(v));
+    const verificationCounts: SuiteCounts = {
+      tests: result.verificationResults.length,
+      failures: this.countStatus(result.verificationResults, VerificationStatus.FAILED),
+      errors: this.countStatus(result.verificationResults, VerificationStatus.ERROR),
+      skipped:
+        this.countStatus(result.verificationResults, VerificationStatus.SKIPPED) +
+        this.countStatus(result.verificationResults, VerificationStatus.INCONCLUSIVE),
+    };
+
+    const total: SuiteCounts = {
+      tests: stepCounts.tests + verificationCounts.tests,
+      failures: stepCounts.failures + verificationCounts.failures,
+      errors: verificationCounts.errors,
+      skipped: verificationCounts.skipped,
+    };
+    const usage: UsageSummary | undefined = result.metadata?.usage?.total;
+    const time = result.durationSeconds.toFixed(3);
+    const stepsTime = durations.reduce((sum, d) => sum + d, 0).toFixed(3);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${escapeXml(this.suiteName)}" ${this.counts(total)} time="${time}">
+  <testsuite name="${escapeXml(`${this.suiteName}.steps`)}" ${this.counts(stepCounts)} time="${stepsTime}" timestamp="${timestamp}">
+    <properties>
+      <property name="task" value="${escapeXml(result.task)}"/>
+      <property name="success" value="${result.success}"/>${
+        usage
+          ? `
+      <property name="llm_tokens" value="${usage.inputTokens + usage.outputTokens}"/>
+      <property name="llm_cost_usd" value="${usage.estimatedCostUsd.toFixed(6)}"/>`
+          : ""
+      }
+    </properties>
+${stepCases.join("\n")}
+  </testsuite>
+  <testsuite name="${escapeXml(`${this.suiteName}.verifications`)}" ${this.counts(verificationCounts)} time="0" timestamp="${timestamp}">
+${verificationCases.join("\n")}
+  </testsuite>
+</testsuites>
+`;
+  }
+
+  writeToFile(result: TestResult, filePath: string): void {
+    writeReport(filePath, this.render(result));
+    logger.info(`Wrote JUnit report to ${filePath}`);
+  }
+
+  private renderStep(step: ActionStep, index: number, seconds: number): string {
+    const name = `${index + 1}. ${step.actionType}: ${step.reasoning || step.description}`;
+    const details = [
+      step.method ? `method: ${step.method}` : undefined,
+      step.confidence !== undefined ? `confidence: ${step.confidence}` : undefined,
+      step.targetElementId ? `element: ${step.targetElementId}` : undefined,
+      step.ineffective ? "effect: none (the screen did not change)" : undefined,
+      step.usage
+        ? `llm: ${step.usage.calls} call(s), ${step.usage.inputTokens}/${step.usage.outputTokens} tokens, $${step.usage.estimatedCostUsd.toFixed(6)}`
+        : undefined,
+      step.description,
+    ].filter(Boolean);
+
+    const children = [`      <system-out>${escapeXml(details.join("\n"))}</system-out>`];
+    if (!step.success) {
+      const message = step.error || "Step failed";
+      children.unshift(
+        `      <failure message="${escapeXml(message)}" type="StepFailed">${escapeXml(message)}</failure>`,
+      );
+    }
+
+    return `    <testcase name="${escapeXml(name)}" classname="${escapeXml(`${this.suiteName}.steps`)}" time="${seconds.toFixed(3)}">
+${children.join("\n")}
+    </testcase>`;
+  }
+
+  private renderVerification(verification: VerificationPoint): string {
+    const message = verification.errorMessage || `Expected ${verification.expectedValue}`;
+    let child = "";
+    switch (verification.status) {
+      case VerificationStatus.FAILED:
+        child = `<failure message="${escapeXml(message)}" type="${escapeXml(verification.assertionType)}">${escapeXml(message)}</failure>`;
+        break;
+      case VerificationStatus.ERROR:
+        child = `<error message="${escapeXml(message)}" type="${escapeXml(verification.assertionType)}">${escapeXml(message)}</error>`;
+        break;
+      case VerificationStatus.SKIPPED:
+        child = `<skipped message="${escapeXml(message)}"/>`;
+        break;
+      case VerificationStatus.INCONCLUSIVE:
+        child = `<skipped message="${escapeXml(`Inconclusive: ${message}`)}"/>`;
+        break;
+    }
+
+    const open = `    <testcase name="${escapeXml(verification.name)}" classname="${escapeXml(`${this.suiteName}.verifications`)}" time="0"`;
+    return child ? `${open}>\n      ${child}\n    </testcase>` : `${open}/>`;
+  }
+
+  private counts(counts: SuiteCounts): string {
+    return `tests="${counts.tests}" failures="${counts.failures}" errors="${counts.errors}" skipped="${counts.skipped}"`;
+  }
+
+  private countStatus(verifications: VerificationPoint[], status: VerificationStatus): number {
+    return verifications.filter((v) => v.status === status).length;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Shared helpers for test report generation
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ActionStep, TestResult } from "../types";
+
+/**
+ * Escape text for XML and HTML content and attribute values
+ */
+export function escapeXml(value: unknown): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Seconds spent on each step, measured up to the next step (or the end of the session)
+ */
+export function stepDurations(result: TestResult): number[] {
+  const end = result.endTime ? new Date(result.endTime).getTime() : undefined;
+  return result.steps.map((step: ActionStep, i: number) => {
+    const start = new Date(step.timestamp).getTime();
+    const next = result.steps[i + 1];
+    const until = next ? new Date(next.timestamp).getTime() : end;
+    return until !== undefined && until > start ? (until - start) / 1000 : 0;
+  });
+}
+
+/**
+ * Write a report, creating its directory when needed
+ */
+export function writeReport(filePath: string, content: string): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(filePath, content);
+}
@@ -3,6 +3,11 @@
  */
 
 import type { Browser } from "webdriverio";
+import type { DecisionCache, DecisionCacheOptions } from "./cache/DecisionCache";
+import type { LLMProvider } from "./llm/LLMProvider";
+import type { ConversationMemoryOptions } from "./memory/ConversationMemory";
+import type { ImageEncodingOptions, TagOverlayOptions } from "./utils/imageProcessor";
+import type { VisualRegressionConfig } from "./visual/BaselineStore";
 
 /**
  * Types of actions that can be performed on UI
@@ -17,6 +22,9 @@ export enum ActionType {
   DOUBLE_TAP = "double_tap",
   PINCH = "pinch",
   ZOOM = "zoom",
+  DONE = "done",
+  FAIL = "fail",
+  NEED_INPUT = "need_input",
 }
 
 /**
@@ -54,6 +62,19 @@ export enum VerificationStatus {
   FAILED = "failed",
   SKIPPED = "skipped",
   ERROR = "error",
+  INCONCLUSIVE = "inconclusive", // Passed, but below the minimum confidence
+}
+
+/**
+ * Terminal statuses for a goal-oriented run
+ */
+export enum GoalStatus {
+  COMPLETED = "completed",
+  FAILED = "failed",
+  NEEDS_INPUT = "needs_input",
+  MAX_STEPS_EXCEEDED = "max_steps_exceeded",
+  TIMED_OUT = "timed_out",
+  ERROR = "error",
 }
 
 /**
@@ -91,11 +112,19 @@ export interface ActionStep {
   targetElementId?: string;
   parameters: Record<string, any>;
   description: string;
+  method?: VisionMethod; // Tier that decided the action
+  model?: string; // Provider that decided the action, with a failover chain
+  reasoning?: string; // LLM reasoning for the action
+  confidence?: number; // LLM confidence (0-1)
   timestamp: Date;
   success: boolean;
   error?: string;
   screenshotBefore?: string;
   screenshotAfter?: string;
+  screenChanged?: boolean; // Hierarchy or screenshot differs after the action (unset when not checked)
+  ineffective?: boolean; // The action ran but changed nothing on screen
+  usage?: UsageSummary; // LLM requests made to decide this step
+  retries?: RetryAttempt[]; // Failed LLM requests that were retried while deciding this step
 }
 
 /**
@@ -109,6 +138,14 @@ export interface VerificationPoint {
   actualValue?: any;
   status: VerificationStatus;
   errorMessage?: string;
+  assertions?: Array<{ description: string; passed: boolean }>; // Sub-assertions from the LLM
+  issues?: string[];
+  confidence?: number; // LLM confidence (0-1)
+  evidence?: UIElement[]; // Elements the LLM cited for its verdict
+  screenshot?: string; // Base64 screenshot of the verified screen
+  method?: VisionMethod; // Hierarchy text or screenshot-based verification
+  usage?: UsageSummary; // LLM requests made for this verification
+  retries?: RetryAttempt[]; // Failed LLM requests that were retried during this verification
 }
 
 /**
@@ -128,6 +165,26 @@ export interface TestResult {
   metadata: Record<string, any>;
 }
 
+/**
+ * Per-call overrides for a goal-oriented run
+ */
+export interface GoalOptions {
+  maxSteps?: number;
+  timeoutSeconds?: number;
+}
+
+/**
+ * Outcome of a goal-oriented run
+ */
+export interface GoalResult {
+  goal: string;
+  success: boolean;
+  status: GoalStatus;
+  stepsTaken: number;
+  reason?: string;
+  durationSeconds: number;
+}
+
 /**
  * Represents the current UI state
  */
@@ -138,6 +195,8 @@ export interface UIState {
   screenshotBase64?: string;
   tagMapping?: Map<number, UIElement>;
   gridMap?: Map<string, { x: number; y: number }>;
+  systemRegions?: SystemRegion[]; // System UI hidden from the screenshot
+  screenshotViewport?: ScreenArea; // Window area the screenshot shows, when system UI was cropped
   xmlSource?: string;
   timestamp: Date;
   deviceInfo: Record<string, any>;
@@ -165,6 +224,99 @@ export interface VisionFallbackConfig {
   preferredMethod?: VisionMethod;
   pureVisionConfig?: PureVisionConfig;
   pureVisionOnly?: boolean; // Skip tiers 1-3, use only pure vision
+  zoomRefinement?: ZoomRefinementConfig; // Refine grid and pure-vision picks on zoomed-in crops
+}
+
+/**
+ * Zooming in after a coarse grid or pure-vision pick to place the tap precisely
+ */
+export interface ZoomRefinementConfig {
+  enabled?: boolean; // Default: false
+  steps?: number; // Zoom-ins per action (default: 1)
+  zoom?: number; // Magnification per step (default: 3)
+  gridSize?: number; // Grid over the zoomed-in view (default: 5)
+  minConfidence?: number; // Below this the previous point is kept (default: 0.5)
+}
+
+export type SystemRegionKind = "statusBar" | "navigationBar" | "keyboard";
+
+/**
+ * System UI drawn over the app, in window coordinates
+ */
+export interface SystemRegion {
+  kind: SystemRegionKind;
+  bounds: { x1: number; y1: number; x2: number; y2: number };
+}
+
+/**
+ * A rectangle of the window in window coordinates
+ */
+export interface ScreenArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Hiding system UI in the screenshots sent to the LLM. "mask" paints the
+ * regions over, "crop" cuts the bars along the screen edges off.
+ */
+export interface SystemRegionConfig {
+  mode?: "off" | "mask" | "crop"; // Default: "off"
+  regions?: SystemRegionKind[]; // Default: all of them
+  maskColor?: string; // Fill of masked regions (default: "#000000")
+}
+
+/**
+ * Locates elements in the UI hierarchy; every given field must match
+ */
+export interface ElementLocator {
+  text?: string; // Exact text
+  textContains?: string; // Case-insensitive substring of the text
+  resourceId?: string; // Full resource-id, or the part after ":id/"
+  contentDesc?: string; // Exact content-desc / accessibility label
+  className?: string;
+}
+
+/**
+ * Property checked by a locator-based assertion
+ */
+export type ElementCheck = "exists" | "visible" | "enabled" | "checked" | "count";
+
+/**
+ * How LLM verification verdicts are turned into statuses
+ */
+export interface AssertionPolicy {
+  minConfidence?: number; // Passes below this confidence are inconclusive (default: 0)
+  captureScreenshot?: boolean; // Attach a screenshot to each verification (default: true)
+  mode?: "hierarchy" | "vision" | "auto"; // auto: hierarchy first, vision as fallback (default: hierarchy)
+  visionConfidenceThreshold?: number; // auto: use vision below this confidence (default: 0.7)
+  sparseHierarchyThreshold?: number; // auto: go straight to vision with fewer visible elements (default: 3)
+  tagScreenshot?: boolean; // Overlay numeric element tags for vision checks (default: true)
+}
+
+/**
+ * Timing and shape of W3C pointer gestures
+ */
+export interface GestureConfig {
+  tapDurationMs?: number;
+  doubleTapIntervalMs?: number;
+  longPressDurationMs?: number;
+  swipeVelocity?: number; // Pixels per second, used when swipeDurationMs is not set
+  swipeDurationMs?: number; // Fixed swipe duration; 0 derives it from swipeVelocity
+  pinchDistance?: number; // Finger distance from center in pixels
+  pinchDurationMs?: number;
+  fingers?: number; // Fingers used for pinch/zoom (min 2)
+}
+
+/**
+ * Checking whether an action had a visible effect
+ */
+export interface EffectDetectionConfig {
+  enabled?: boolean; // Compare hierarchy and screenshots before / after each action; adds a settle wait, a page source read and a screenshot per action (default: false)
+  retryWithNextTier?: boolean; // Retry an ineffective action with the next vision tier (default: false)
+  minScreenshotDiff?: number; // Share of pixels that must change for the screenshot to count as changed (default: 0.001)
 }
 
 /**
@@ -172,14 +324,121 @@ export interface VisionFallbackConfig {
  */
 export interface MobileAgentConfig {
   driver: Browser;
-  apiKey: string;
-  llmProvider?: "openai" | "anthropic";
+  apiKey?: string; // Not needed for self-hosted OpenAI-compatible endpoints
+  llmProvider?: string | LLMProvider; // Registered provider name or a ready-made instance
+  llmOptions?: Record<string, any>; // Extra provider factory options (e.g. baseURL)
   model?: string;
   maxSteps?: number;
   timeoutSeconds?: number;
   verbose?: boolean;
   enableVisionFallback?: boolean;
   visionConfig?: VisionFallbackConfig;
+  systemRegions?: SystemRegionConfig; // Status bar, navigation bar and keyboard in LLM screenshots
+  screenshotEncoding?: ImageEncodingOptions; // Size and format of screenshots sent to the LLM
+  tagOverlay?: TagOverlayOptions; // Numbered element tags drawn for vision tagging
+  gestures?: GestureConfig;
+  effectDetection?: EffectDetectionConfig;
+  assertionPolicy?: AssertionPolicy;
+  pricing?: Record<string, ModelPricing>; // Model name (or prefix) to price, merged over the defaults
+  budget?: BudgetConfig; // Hard caps on LLM usage
+  failover?: FailoverConfig; // Providers to escalate to after llmProvider
+  decisionCache?: DecisionCache | DecisionCacheOptions; // Replay decisions for known screens
+  memory?: ConversationMemoryOptions; // Token budget of the conversation replayed to the LLM
+  visualRegression?: VisualRegressionConfig; // Baselines and defaults for matchScreenshot()
+}
+
+/**
+ * A provider in a failover chain, built through the provider registry
+ */
+export interface FailoverProviderSpec {
+  provider: string; // Registered provider name
+  model?: string;
+  apiKey?: string; // Defaults to apiKey when the provider matches llmProvider
+  options?: Record<string, any>; // Extra provider factory options
+  label?: string; // Name in step descriptions (default: the model)
+}
+
+/**
+ * Ordered chain of providers/models to escalate to when llmProvider errors
+ * out, returns unparseable JSON or answers with low confidence
+ */
+export interface FailoverConfig {
+  providers: Array<LLMProvider | FailoverProviderSpec>; // Tried in order after llmProvider
+  confidenceThreshold?: number; // Escalate below this confidence (default: visionConfig.confidenceThreshold)
+}
+
+/**
+ * Token usage and latency of a single LLM request
+ */
+export interface LLMUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number; // Screenshots sent with the request
+  latencyMs: number;
+}
+
+/**
+ * Prices for a model in USD
+ */
+export interface ModelPricing {
+  inputPerMillion: number; // Per million input tokens
+  outputPerMillion: number; // Per million output tokens
+  perImage?: number; // Extra charge per image, for providers that bill images separately
+}
+
+/**
+ * Retry behaviour for LLM requests (see BaseLLMProvider)
+ */
+export interface RetryPolicy {
+  maxRetries?: number; // Retries after the first attempt (default: 3)
+  initialDelayMs?: number; // First backoff delay (default: 1000)
+  maxDelayMs?: number; // Cap for backoff and retry-after delays (default: 30000)
+  backoffFactor?: number; // Growth of the delay per retry (default: 2)
+  timeoutMs?: number; // Per-attempt timeout (default: 60000)
+  circuitBreakerThreshold?: number; // Consecutive failed requests that open the circuit (default: 5, 0 disables)
+  circuitBreakerCooldownMs?: number; // How long an open circuit rejects requests (default: 30000)
+}
+
+/**
+ * A failed LLM request attempt that was retried
+ */
+export interface RetryAttempt {
+  attempt: number; // 1 for the first request
+  error: string;
+  status?: number; // HTTP status, when the provider returned one
+  delayMs: number; // Wait before the next attempt
+}
+
+/**
+ * Caps on LLM usage; omitted fields are unlimited
+ */
+export interface BudgetLimits {
+  maxCalls?: number;
+  maxTokens?: number; // Input plus output tokens
+  maxImages?: number;
+  maxCostUsd?: number; // Estimated spend, see ModelPricing
+}
+
+/**
+ * Budget caps for a whole session and for each execute() / executeGoal() run
+ */
+export interface BudgetConfig {
+  session?: BudgetLimits;
+  perExecute?: BudgetLimits;
+}
+
+/**
+ * Aggregated LLM usage with estimated cost
+ */
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  latencyMs: number;
+  estimatedCostUsd: number; // Sum over calls with a known price
+  unpricedCalls: number; // Calls whose model is missing from the price table
 }
 
 /**
@@ -197,6 +456,8 @@ export interface LLMActionResponse {
   tagId?: number;
   gridPosition?: string;
   element?: string; // Element description for pure vision
+  reason?: string; // Why the task cannot proceed (fail / need_input)
+  models?: string[]; // Providers tried by a failover chain; the last one answered
 }
 
 /**
@@ -209,5 +470,41 @@ export interface LLMVerificationResponse {
     passed: boolean;
   }>;
   issues?: string[];
+  evidence?: string[]; // Element IDs the verdict relies on
   confidence: number;
+  method?: VisionMethod; // How the condition was checked
+  models?: string[]; // Providers tried by a failover chain; the last one answered
 }
+
+/**
+ * LLM pick of the exact target on a zoomed-in view
+ */
+export interface LLMRefinementResponse {
+  found: boolean; // Whether the target is visible in the view
+  gridPosition?: string;
+  coordinates?: { x: number; y: number }; // Window coordinates of the picked cell
+  reasoning?: string;
+  confidence: number;
+  models?: string[]; // Providers tried by a failover chain; the last one answered
+}
+
+/**
+ * A prior message of a conversation with the LLM
+ */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * History replayed to the LLM as chat turns (see ConversationMemory)
+ */
+export interface ConversationHistory {
+  toTurns(): ChatTurn[];
+}
+
+/**
+ * History for an LLM request: "action - reasoning" lines embedded in the
+ * prompt, or a conversation sent as prior chat turns
+ */
+export type PromptHistory = string[] | ConversationHistory;
@@ -0,0 +1,192 @@
+/**
+ * Usage Tracker - aggregates LLM token usage, latency and estimated cost
+ */
+
+import { BudgetExceededError } from "../errors";
+import type { BudgetConfig, BudgetLimits, LLMUsage, ModelPricing, UsageSummary } from "../types";
+
+/**
+ * List prices (USD) for the providers' default models. Override or extend
+ * through the `pricing` option when your contract or model differs.
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "claude-3-5-sonnet": { inputPerMillion: 3, outputPerMillion: 15 },
+  "claude-3-5-haiku": { inputPerMillion: 0.8, outputPerMillion: 4 },
+};
+
+/**
+ * Usage report for a session, broken down by the tier (or verification path)
+ * that made the requests and by model
+ */
+export interface UsageReport {
+  total: UsageSummary;
+  byTier: Record<string, UsageSummary>;
+  byModel: Record<string, UsageSummary>;
+}
+
+export function emptyUsageSummary(): UsageSummary {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    images: 0,
+    latencyMs: 0,
+    estimatedCostUsd: 0,
+    unpricedCalls: 0,
+  };
+}
+
+/**
+ * Price for a model: an exact entry, otherwise the longest matching prefix
+ * (so "gpt-4o-2024-08-06" uses "gpt-4o" and "gpt-4o-mini" keeps its own price)
+ */
+export function findPricing(
+  model: string,
+  pricing: Record<string, ModelPricing>,
+): ModelPricing | undefined {
+  if (pricing[model]) return pricing[model];
+  const prefix = Object.keys(pricing)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Estimated cost of one request in USD, or undefined for unpriced models
+ */
+export function estimateCost(
+  usage: LLMUsage,
+  pricing: Record<string, ModelPricing>,
+): number | undefined {
+  const price = findPricing(usage.model, pricing);
+  if (!price) return undefined;
+  return (
+    (usage.inputTokens * price.inputPerMillion) / 1_000_000 +
+    (usage.outputTokens * price.outputPerMillion) / 1_000_000 +
+    usage.images * (price.perImage ?? 0)
+  );
+}
+
+/**
+ * Throw when one more request with the given number of images would go over a
+ * limit. Token and cost caps count as reached once the spend meets them, since
+ * a request's size is only known after it returns.
+ */
+export function checkBudgetLimits(
+  spent: UsageSummary,
+  limits: BudgetLimits,
+  scope: "session" | "execute",
+  images = 0,
+): void {
+  const { maxCalls, maxTokens, maxImages, maxCostUsd } = limits;
+  const tokens = spent.inputTokens + spent.outputTokens;
+
+  if (maxCalls !== undefined && spent.calls + 1 > maxCalls) {
+    throw new BudgetExceededError(scope, "maxCalls", maxCalls, spent.calls);
+  }
+  if (maxTokens !== undefined && tokens >= maxTokens) {
+    throw new BudgetExceededError(scope, "maxTokens", maxTokens, tokens);
+  }
+  if (maxImages !== undefined && spent.images + images > maxImages) {
+    throw new BudgetExceededError(scope, "maxImages", maxImages, spent.images);
+  }
+  if (maxCostUsd !== undefined && spent.estimatedCostUsd >= maxCostUsd) {
+    throw new BudgetExceededError(
+      scope,
+      "maxCostUsd",
+      maxCostUsd,
+      Number(spent.estimatedCostUsd.toFixed(6)),
+    );
+  }
+}
+
+/**
+ * Collects every LLM request of a session. Requests accumulate as "pending"
+ * until the step or verification they belong to takes them, and per run while
+ * an execute() call is in progress.
+ */
+export class UsageTracker {
+  private pricing: Record<string, ModelPricing>;
+  private report: UsageReport = { total: emptyUsageSummary(), byTier: {}, byModel: {} };
+  private pending = emptyUsageSummary();
+  private run?: UsageSummary;
+
+  constructor(pricing: Record<string, ModelPricing> = {}) {
+    this.pricing = { ...DEFAULT_PRICING, ...pricing };
+  }
+
+  /**
+   * Record a request made by the given tier
+   */
+  record(usage: LLMUsage, tier: string): void {
+    const cost = estimateCost(usage, this.pricing);
+    const { byTier, byModel } = this.report;
+    byTier[tier] = byTier[tier] || emptyUsageSummary();
+    byModel[usage.model] = byModel[usage.model] || emptyUsageSummary();
+
+    const summaries = [this.report.total, byTier[tier], byModel[usage.model], this.pending];
+    if (this.run) summaries.push(this.run);
+
+    for (const summary of summaries) {
+      summary.calls++;
+      summary.inputTokens += usage.inputTokens;
+      summary.outputTokens += usage.outputTokens;
+      summary.images += usage.images;
+      summary.latencyMs += usage.latencyMs;
+      if (cost === undefined) {
+        summary.unpricedCalls++;
+      } else {
+        summary.estimatedCostUsd += cost;
+      }
+    }
+  }
+
+  /**
+   * Usage recorded since the last call, or undefined when there was none
+   */
+  takePending(): UsageSummary | undefined {
+    if (this.pending.calls === 0) return undefined;
+    const pending = this.pending;
+    this.pending = emptyUsageSummary();
+    return pending;
+  }
+
+  /**
+   * Session totals; the returned object keeps updating as requests are recorded
+   */
+  getReport(): UsageReport {
+    return this.report;
+  }
+
+  /**
+   * Start counting usage for a single run (used by the "perExecute" budget)
+   */
+  startRun(): void {
+    this.run = emptyUsageSummary();
+  }
+
+  endRun(): void {
+    this.run = undefined;
+  }
+
+  /**
+   * Throw a BudgetExceededError when a request with the given number of
+   * images would go over the session cap, or the run cap while a run is active
+   */
+  checkBudget(budget: BudgetConfig, images = 0): void {
+    if (budget.session) {
+      checkBudgetLimits(this.report.total, budget.session, "session", images);
+    }
+    if (budget.perExecute && this.run) {
+      checkBudgetLimits(this.run, budget.perExecute, "execute", images);
+    }
+  }
+
+  reset(): void {
+    this.report = { total: emptyUsageSummary(), byTier: {}, byModel: {} };
+    this.pending = emptyUsageSummary();
+    this.run = undefined;
+  }
+}
@@ -22,13 +22,74 @@ export function bufferToBase64(buffer: Buffer): string {
   return buffer.toString("base64");
 }
 
+export type ImageMimeType = "image/png" | "image/jpeg" | "image/webp" | "image/gif";
+
+const IMAGE_MIME_TYPES: ImageMimeType[] = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+
+/**
+ * MIME type of a base64 image, from its data URL prefix or magic bytes
+ * (PNG when unknown)
+ */
+export function detectImageMimeType(base64: string): ImageMimeType {
+  const dataUrl = base64.match(/^data:(image\/\w+);base64,/);
+  const declared = IMAGE_MIME_TYPES.find((type) => type === dataUrl?.[1]);
+  if (declared) return declared;
+  const data = dataUrl ? base64.slice(dataUrl[0].length) : base64;
+  if (data.startsWith("/9j/")) return "image/jpeg";
+  if (data.startsWith("UklGR")) return "image/webp";
+  if (data.startsWith("R0lGOD")) return "image/gif";
+  return "image/png";
+}
+
+/**
+ * Options of the numeric tag overlay that can be set in the agent config
+ */
+export interface TagOverlayOptions {
+  maxTags?: number; // Most elements tagged; the most useful ones are kept (default: 60)
+  outlines?: boolean; // Outline the bounds of each tagged element (default: true)
+}
+
+/**
+ * Options of a single overlayNumericTags() call
+ */
+export interface NumericTagOptions extends TagOverlayOptions {
+  origin?: { x: number; y: number }; // Element coordinates of the image's top-left corner
+  logicalWidth?: number; // Width of the area the image shows, in element coordinates (default: image width)
+  logicalHeight?: number; // Height of that area (default: image height)
+}
+
+const DEFAULT_MAX_TAGS = 60;
+
+// Distinct label colors, tried in turn and skipped when they blend into the background
+const TAG_COLORS: Array<[number, number, number]> = [
+  [230, 25, 75],
+  [67, 99, 216],
+  [60, 180, 75],
+  [245, 130, 49],
+  [145, 30, 180],
+  [240, 50, 230],
+  [0, 0, 0],
+  [255, 225, 25],
+];
+const MIN_TAG_CONTRAST = 3;
+
+type Box = { x1: number; y1: number; x2: number; y2: number };
+
 /**
- * Overlay numeric tags on interactive elements in a screenshot
+ * Overlay numeric tags on interactive elements in a screenshot.
+ *
+ * Each element gets an outline and a small numbered label at a corner of
+ * its bounds, placed so labels do not overlap each other and cover as little
+ * of other elements as possible. Sizes follow the screenshot / logical scale,
+ * and label colors are picked to stand out from the pixels underneath. Past
+ * `maxTags`, labeled and leaf elements are preferred over bare containers.
+ * Returns the tag -> element mapping and each label's box in image pixels.
  */
 export async function overlayNumericTags(
   base64Image: string,
   elements: UIElement[],
-): Promise<{ image: string; mapping: Map<number, UIElement> }> {
+  options: NumericTagOptions = {},
+): Promise<{ image: string; mapping: Map<number, UIElement>; labels: Map<number, ImageRegion> }> {
   try {
     const imageBuffer = base64ToBuffer(base64Image);
     const image = sharp(imageBuffer);
@@ -38,34 +99,76 @@ export async function overlayNumericTags(
       throw new Error("Failed to get image dimensions");
     }
 
-    const mapping = new Map<number, UIElement>();
-    const clickableElements = elements.filter((e) => e.clickable && e.visible && e.bounds);
+    const width = metadata.width;
+    const height = metadata.height;
+    const origin = options.origin || { x: 0, y: 0 };
+    const scaleX = width / (options.logicalWidth || width);
+    const scaleY = height / (options.logicalHeight || height);
+    const scale = Math.min(scaleX, scaleY);
+
+    // Element bounds in image pixels, clipped to the image
+    const toPixels = (element: UIElement): Box | undefined => {
+      if (!element.bounds) return undefined;
+      const box = {
+        x1: Math.max(0, Math.round((element.bounds.x1 - origin.x) * scaleX)),
+        y1: Math.max(0, Math.round((element.bounds.y1 - origin.y) * scaleY)),
+        x2: Math.min(width, Math.round((element.bounds.x2 - origin.x) * scaleX)),
+        y2: Math.min(height, Math.round((element.bounds.y2 - origin.y) * scaleY)),
+      };
+      return box.x2 > box.x1 && box.y2 > box.y1 ? box : undefined;
+    };
 
-    // Create SVG overlay with numbered tags
+    const candidates: Array<{ element: UIElement; box: Box }> = [];
+    for (const element of elements) {
+      if (!element.clickable || !element.visible) continue;
+      const box = toPixels(element);
+      if (box) candidates.push({ element, box });
+    }
+    const tagged = selectTagged(candidates, options.maxTags ?? DEFAULT_MAX_TAGS);
+
+    const fontSize = Math.max(12, Math.round(13 * scale));
+    const padding = Math.max(2, Math.round(fontSize * 0.25));
+    const strokeWidth = Math.max(2, Math.round(2 * scale));
+    const pixels = tagged.length > 0 ? await decodeRaw(imageBuffer) : undefined;
+
+    const mapping = new Map<number, UIElement>();
+    const labels = new Map<number, ImageRegion>();
+    const placed: Box[] = [];
     const svgElements: string[] = [];
 
-    clickableElements.forEach((element, index) => {
+    tagged.forEach(({ element, box }, index) => {
       const tagId = index + 1;
       mapping.set(tagId, element);
 
-      if (element.bounds) {
-        const centerX = Math.floor((element.bounds.x1 + element.bounds.x2) / 2);
-        const centerY = Math.floor((element.bounds.y1 + element.bounds.y2) / 2);
-
-        // Draw a circle with number
-        const radius = 20;
-        svgElements.push(`
-          <circle cx="${centerX}" cy="${centerY}" r="${radius}" 
-                  fill="rgba(255, 0, 0, 0.7)" stroke="white" stroke-width="2"/>
-          <text x="${centerX}" y="${centerY + 5}" 
-                font-size="16" font-weight="bold" fill="white" 
+      const labelWidth = Math.ceil(String(tagId).length * fontSize * 0.62) + padding * 2;
+      const labelHeight = fontSize + padding * 2;
+      const others = tagged.filter((t) => t.element !== element).map((t) => t.box);
+      const label = placeLabel(box, labelWidth, labelHeight, width, height, placed, others);
+      placed.push(label);
+      labels.set(tagId, label);
+
+      const background = pixels ? meanColor(pixels, label) : [255, 255, 255];
+      const color = pickTagColor(index, background);
+      const fill = `rgb(${color.join(",")})`;
+      const textFill = contrastRatio(color, [0, 0, 0]) > contrastRatio(color, [255, 255, 255]);
+
+      if (options.outlines ?? true) {
+        const inset = strokeWidth / 2;
+        svgElements.push(
+          `<rect x="${box.x1 + inset}" y="${box.y1 + inset}" width="${Math.max(0, box.x2 - box.x1 - strokeWidth)}" height="${Math.max(0, box.y2 - box.y1 - strokeWidth)}" fill="none" stroke="${fill}" stroke-width="${strokeWidth}"/>`,
+        );
+      }
+      svgElements.push(`
+          <rect x="${label.x1}" y="${label.y1}" width="${labelWidth}" height="${labelHeight}"
+                rx="${padding}" fill="${fill}"/>
+          <text x="${label.x1 + labelWidth / 2}" y="${label.y1 + padding + Math.round(fontSize * 0.85)}"
+                font-size="${fontSize}" font-weight="bold" fill="${textFill ? "black" : "white"}"
                 text-anchor="middle" font-family="Arial">${tagId}</text>
         `);
-      }
     });
 
     const svg = `
-      <svg width="${metadata.width}" height="${metadata.height}">
+      <svg width="${width}" height="${height}">
         ${svgElements.join("\n")}
       </svg>
     `;
@@ -82,11 +185,14 @@ export async function overlayNumericTags(
       .png()
       .toBuffer();
 
-    logger.debug(`Overlaid ${mapping.size} numeric tags on screenshot`);
+    logger.debug(
+      `Overlaid ${mapping.size} numeric tags on screenshot (${candidates.length} clickable elements, scale=${scale.toFixed(2)})`,
+    );
 
     return {
       image: bufferToBase64(taggedImageBuffer),
       mapping,
+      labels,
     };
   } catch (error: any) {
     logger.error("Failed to overlay numeric tags:", error);
@@ -94,6 +200,146 @@ export async function overlayNumericTags(
   }
 }
 
+/**
+ * Elements to tag, in their original order: one per distinct bounds, and at
+ * most `maxTags`, preferring labeled elements, then ones that do not contain
+ * other clickable elements, then smaller ones
+ */
+function selectTagged<T extends { element: UIElement; box: Box }>(
+  candidates: T[],
+  maxTags: number,
+): T[] {
+  const containsOther = (c: T) =>
+    candidates.some(
+      (o) =>
+        o !== c &&
+        o.box.x1 >= c.box.x1 &&
+        o.box.y1 >= c.box.y1 &&
+        o.box.x2 <= c.box.x2 &&
+        o.box.y2 <= c.box.y2 &&
+        !sameBox(o.box, c.box),
+    );
+  const priority = (c: T) =>
+    (c.element.text || c.element.contentDesc ? 4 : 0) +
+    (containsOther(c) ? 0 : 2) +
+    (c.element.enabled ? 1 : 0);
+  const area = (c: T) => (c.box.x2 - c.box.x1) * (c.box.y2 - c.box.y1);
+
+  const ranked = candidates
+    .map((c, order) => ({ c, order, priority: priority(c), area: area(c) }))
+    .sort((a, b) => b.priority - a.priority || a.area - b.area || a.order - b.order);
+
+  const kept: typeof ranked = [];
+  for (const entry of ranked) {
+    if (kept.length >= Math.max(0, maxTags)) break;
+    if (!kept.some((k) => sameBox(k.c.box, entry.c.box))) kept.push(entry);
+  }
+  return kept.sort((a, b) => a.order - b.order).map((k) => k.c);
+}
+
+function sameBox(a: Box, b: Box): boolean {
+  return a.x1 === b.x1 && a.y1 === b.y1 && a.x2 === b.x2 && a.y2 === b.y2;
+}
+
+function overlapArea(a: Box, b: Box): number {
+  const w = Math.min(a.x2, b.x2) - Math.max(a.x1, b.x1);
+  const h = Math.min(a.y2, b.y2) - Math.max(a.y1, b.y1);
+  return w > 0 && h > 0 ? w * h : 0;
+}
+
+/**
+ * Label position at a corner of the element: the first candidate clear of
+ * other labels and other elements, otherwise the one overlapping them least
+ * (overlapping labels weighs more than covering elements)
+ */
+function placeLabel(
+  box: Box,
+  labelWidth: number,
+  labelHeight: number,
+  imageWidth: number,
+  imageHeight: number,
+  placed: Box[],
+  others: Box[],
+): Box {
+  const positions: Array<[number, number]> = [
+    [box.x1, box.y1 - labelHeight], // Above, left-aligned
+    [box.x1, box.y1], // Inside top-left
+    [box.x2 - labelWidth, box.y1], // Inside top-right
+    [box.x1 - labelWidth, box.y1], // Left
+    [box.x2, box.y1], // Right
+    [box.x1, box.y2], // Below, left-aligned
+    [box.x1, box.y2 - labelHeight], // Inside bottom-left
+    [box.x2 - labelWidth, box.y2 - labelHeight], // Inside bottom-right
+  ];
+
+  let best: Box | undefined;
+  let bestCost = Number.POSITIVE_INFINITY;
+  for (const [x, y] of positions) {
+    const x1 = Math.min(Math.max(0, x), Math.max(0, imageWidth - labelWidth));
+    const y1 = Math.min(Math.max(0, y), Math.max(0, imageHeight - labelHeight));
+    const label = { x1, y1, x2: x1 + labelWidth, y2: y1 + labelHeight };
+    const cost =
+      placed.reduce((sum, p) => sum + overlapArea(label, p), 0) * 10 +
+      others.reduce((sum, o) => sum + (containsBox(o, box) ? 0 : overlapArea(label, o)), 0);
+    if (cost < bestCost) {
+      best = label;
+      bestCost = cost;
+      if (cost === 0) break;
+    }
+  }
+  return best as Box;
+}
+
+function containsBox(outer: Box, inner: Box): boolean {
+  return (
+    outer.x1 <= inner.x1 && outer.y1 <= inner.y1 && outer.x2 >= inner.x2 && outer.y2 >= inner.y2
+  );
+}
+
+/**
+ * Average color of an area of decoded pixels
+ */
+function meanColor(pixels: RawImage, area: Box): number[] {
+  const sum = [0, 0, 0];
+  let count = 0;
+  const step = Math.max(1, Math.floor(Math.min(area.x2 - area.x1, area.y2 - area.y1) / 8));
+  for (let y = Math.max(0, area.y1); y < Math.min(pixels.height, area.y2); y += step) {
+    for (let x = Math.max(0, area.x1); x < Math.min(pixels.width, area.x2); x += step) {
+      const i = (y * pixels.width + x) * pixels.channels;
+      for (let c = 0; c < 3; c++) sum[c] += pixels.data[i + c];
+      count++;
+    }
+  }
+  return count > 0 ? sum.map((s) => s / count) : [255, 255, 255];
+}
+
+/**
+ * Palette color for a tag: cycles through the colors with enough contrast to
+ * the background, so neighboring tags differ (the best one when none has)
+ */
+function pickTagColor(index: number, background: number[]): [number, number, number] {
+  const eligible = TAG_COLORS.filter((c) => contrastRatio(c, background) >= MIN_TAG_CONTRAST);
+  if (eligible.length > 0) return eligible[index % eligible.length];
+  return TAG_COLORS.reduce((best, c) =>
+    contrastRatio(c, background) > contrastRatio(best, background) ? c : best,
+  );
+}
+
+/**
+ * WCAG contrast ratio between two sRGB colors (1-21)
+ */
+function contrastRatio(a: number[], b: number[]): number {
+  const luminance = (rgb: number[]) => {
+    const [r, g, b] = rgb.map((v) => {
+      const c = v / 255;
+      return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  };
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
 /**
  * Overlay grid lines on a screenshot
  */
@@ -215,3 +461,457 @@ export async function overlayGridLines(
     throw error;
   }
 }
+
+/**
+ * A screenshot as base64 (optionally a data URL) or encoded image bytes
+ */
+export type ImageInput = string | Buffer;
+
+/**
+ * A rectangle in image pixels; x2 / y2 are exclusive, like element bounds
+ */
+export interface ImageRegion {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PixelDiffOptions {
+  threshold?: number; // Color distance (0-1) up to which pixels count as equal (default: 0.1)
+  ignoreRegions?: ImageRegion[]; // Areas left out of the comparison, in pixels of the first image
+}
+
+export interface PixelDiffResult {
+  width: number;
+  height: number;
+  diffPixels: number;
+  totalPixels: number; // Pixels compared (outside the ignored regions)
+  diffRatio: number; // diffPixels / totalPixels
+  changedRegion?: ImageRegion; // Bounding box of the differing pixels
+}
+
+export interface SsimOptions {
+  maxSize?: number; // Longest side the images are scaled down to first (default: 512)
+  windowSize?: number; // Side of the square windows compared (default: 8)
+}
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: number;
+}
+
+function toImageBuffer(image: ImageInput): Buffer {
+  return typeof image === "string" ? base64ToBuffer(image) : image;
+}
+
+/**
+ * Pixel dimensions of an encoded image
+ */
+export async function getImageSize(image: ImageInput): Promise<{ width: number; height: number }> {
+  const { width, height } = await sharp(toImageBuffer(image)).metadata();
+  if (!width || !height) {
+    throw new Error("Failed to get image dimensions");
+  }
+  return { width, height };
+}
+
+/**
+ * Decode to raw pixels with transparency flattened onto white, optionally
+ * resized (ignoring the aspect ratio) and converted to grayscale
+ */
+async function decodeRaw(
+  image: ImageInput,
+  size?: { width: number; height: number },
+  grayscale = false,
+): Promise<RawImage> {
+  let pipeline = sharp(toImageBuffer(image)).flatten({ background: "#ffffff" });
+  if (size) {
+    pipeline = pipeline.resize(size.width, size.height, { fit: "fill" });
+  }
+  pipeline = grayscale ? pipeline.grayscale() : pipeline.toColourspace("srgb");
+  const { data, info } = await pipeline.raw().toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+/**
+ * Compare two images pixel by pixel; the second one is resized to the first
+ * one's dimensions when they differ. Also returns the mask of differing pixels.
+ */
+async function comparePixels(
+  a: ImageInput,
+  b: ImageInput,
+  options: PixelDiffOptions,
+): Promise<{ first: RawImage; mask: Uint8Array; result: PixelDiffResult }> {
+  const first = await decodeRaw(a);
+  const { width, height, channels } = first;
+  const second = await decodeRaw(b, { width, height });
+
+  const ignored = new Uint8Array(width * height);
+  for (const region of options.ignoreRegions || []) {
+    for (let y = Math.max(0, region.y1); y < Math.min(height, region.y2); y++) {
+      ignored.fill(1, y * width + Math.max(0, region.x1), y * width + Math.min(width, region.x2));
+    }
+  }
+
+  // Squared RGB distance, normalized so that black vs white is 1
+  const threshold = options.threshold ?? 0.1;
+  const maxDistance = threshold * threshold * 3 * 255 * 255;
+  const mask = new Uint8Array(width * height);
+  let diffPixels = 0;
+  let totalPixels = 0;
+  let changedRegion: ImageRegion | undefined;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (ignored[p]) continue;
+      totalPixels++;
+
+      const i = p * channels;
+      const j = p * second.channels;
+      let distance = 0;
+      for (let c = 0; c < 3; c++) {
+        const delta = first.data[i + c] - second.data[j + c];
+        distance += delta * delta;
+      }
+      if (distance <= maxDistance) continue;
+
+      mask[p] = 1;
+      diffPixels++;
+      if (!changedRegion) {
+        changedRegion = { x1: x, y1: y, x2: x + 1, y2: y + 1 };
+      } else {
+        changedRegion.x1 = Math.min(changedRegion.x1, x);
+        changedRegion.x2 = Math.max(changedRegion.x2, x + 1);
+        changedRegion.y2 = y + 1;
+      }
+    }
+  }
+
+  return {
+    first,
+    mask,
+    result: {
+      width,
+      height,
+      diffPixels,
+      totalPixels,
+      diffRatio: totalPixels > 0 ? diffPixels / totalPixels : 0,
+      changedRegion,
+    },
+  };
+}
+
+/**
+ * Count the pixels whose color differs by more than the tolerance
+ */
+export async function pixelDiff(
+  a: ImageInput,
+  b: ImageInput,
+  options: PixelDiffOptions = {},
+): Promise<PixelDiffResult> {
+  const { result } = await comparePixels(a, b, options);
+  return result;
+}
+
+/**
+ * Render the differences between two images: the first image faded out,
+ * with the differing pixels painted red
+ */
+export async function diffImage(
+  a: ImageInput,
+  b: ImageInput,
+  options: PixelDiffOptions = {},
+): Promise<{ image: string; result: PixelDiffResult }> {
+  const { first, mask, result } = await comparePixels(a, b, options);
+  const output = Buffer.alloc(first.width * first.height * 3);
+
+  for (let p = 0; p < mask.length; p++) {
+    const o = p * 3;
+    if (mask[p]) {
+      output[o] = 255;
+      output[o + 1] = 0;
+      output[o + 2] = 0;
+      continue;
+    }
+    const i = p * first.channels;
+    const luminance = 0.299 * first.data[i] + 0.587 * first.data[i + 1] + 0.114 * first.data[i + 2];
+    output.fill(Math.round(180 + luminance * 0.3), o, o + 3);
+  }
+
+  const png = await sharp(output, {
+    raw: { width: first.width, height: first.height, channels: 3 },
+  })
+    .png()
+    .toBuffer();
+  logger.debug(`Diff image: ${result.diffPixels} of ${result.totalPixels} pixels differ`);
+  return { image: bufferToBase64(png), result };
+}
+
+/**
+ * 64-bit perceptual hash (pHash) as 16 hex digits: the signs of the lowest
+ * 8x8 DCT frequencies of a 32x32 grayscale thumbnail against their median.
+ * Similar-looking images have hashes a small hammingDistance apart.
+ */
+export async function perceptualHash(image: ImageInput): Promise<string> {
+  const size = 32;
+  const low = 8;
+  const { data, channels } = await decodeRaw(image, { width: size, height: size }, true);
+
+  const cosines: number[][] = [];
+  for (let x = 0; x < size; x++) {
+    cosines.push([]);
+    for (let u = 0; u < low; u++) {
+      cosines[x].push(Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size)));
+    }
+  }
+
+  // Separable 2D DCT-II, rows first
+  const rows: number[][] = [];
+  for (let y = 0; y < size; y++) {
+    rows.push(new Array(low).fill(0));
+    for (let x = 0; x < size; x++) {
+      const value = data[(y * size + x) * channels];
+      for (let u = 0; u < low; u++) {
+        rows[y][u] += value * cosines[x][u];
+      }
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < low; v++) {
+    for (let u = 0; u < low; u++) {
+      let sum = 0;
+      for (let y = 0; y < size; y++) {
+        sum += rows[y][u] * cosines[y][v];
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness; leave it out of the median
+  const sorted = coefficients.slice(1).sort((m, n) => m - n);
+  const median = sorted[31]; // Middle of the 63 AC coefficients
+
+  let hash = "";
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let bits = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      bits = (bits << 1) | (coefficients[nibble * 4 + bit] > median ? 1 : 0);
+    }
+    hash += bits.toString(16);
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(hashA: string, hashB: string): number {
+  if (hashA.length !== hashB.length) {
+    throw new Error(`Hashes differ in length: ${hashA.length} vs ${hashB.length}`);
+  }
+  let distance = 0;
+  for (let i = 0; i < hashA.length; i++) {
+    let bits = Number.parseInt(hashA[i], 16) ^ Number.parseInt(hashB[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Structural similarity (SSIM) of two images in grayscale, averaged over
+ * square windows: 1 for identical images, lower as structure differs.
+ * Both images are scaled to the first one's (reduced) dimensions.
+ */
+export async function ssim(
+  a: ImageInput,
+  b: ImageInput,
+  options: SsimOptions = {},
+): Promise<number> {
+  const { maxSize = 512, windowSize = 8 } = options;
+  const original = await getImageSize(a);
+
+  const scale = Math.min(1, maxSize / Math.max(original.width, original.height));
+  const size = {
+    width: Math.max(1, Math.round(original.width * scale)),
+    height: Math.max(1, Math.round(original.height * scale)),
+  };
+  const x = await decodeRaw(a, size, true);
+  const y = await decodeRaw(b, size, true);
+
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+  const windowWidth = Math.min(windowSize, size.width);
+  const windowHeight = Math.min(windowSize, size.height);
+  let total = 0;
+  let windows = 0;
+
+  for (let top = 0; top + windowHeight <= size.height; top += windowHeight) {
+    for (let left = 0; left + windowWidth <= size.width; left += windowWidth) {
+      let sumX = 0;
+      let sumY = 0;
+      let sumXX = 0;
+      let sumYY = 0;
+      let sumXY = 0;
+      for (let row = top; row < top + windowHeight; row++) {
+        for (let col = left; col < left + windowWidth; col++) {
+          const p = row * size.width + col;
+          const vx = x.data[p * x.channels];
+          const vy = y.data[p * y.channels];
+          sumX += vx;
+          sumY += vy;
+          sumXX += vx * vx;
+          sumYY += vy * vy;
+          sumXY += vx * vy;
+        }
+      }
+
+      const n = windowWidth * windowHeight;
+      const meanX = sumX / n;
+      const meanY = sumY / n;
+      const varX = sumXX / n - meanX * meanX;
+      const varY = sumYY / n - meanY * meanY;
+      const covariance = sumXY / n - meanX * meanY;
+      total +=
+        ((2 * meanX * meanY + c1) * (2 * covariance + c2)) /
+        ((meanX * meanX + meanY * meanY + c1) * (varX + varY + c2));
+      windows++;
+    }
+  }
+
+  return total / windows;
+}
+
+/**
+ * Paint solid rectangles over regions of an image (in image pixels)
+ */
+export async function maskImageRegions(
+  base64Image: string,
+  regions: ImageRegion[],
+  color = "#000000",
+): Promise<string> {
+  try {
+    const image = sharp(base64ToBuffer(base64Image));
+    const { width, height } = await image.metadata();
+    if (!width || !height) {
+      throw new Error("Failed to get image dimensions");
+    }
+
+    const rects = regions.map(
+      (r) =>
+        `<rect x="${r.x1}" y="${r.y1}" width="${r.x2 - r.x1}" height="${r.y2 - r.y1}" fill="${color}"/>`,
+    );
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${rects.join("")}</svg>`;
+    const masked = await image
+      .composite([{ input: Buffer.from(svg), top: 0, left: 0 }])
+      .png()
+      .toBuffer();
+    return bufferToBase64(masked);
+  } catch (error: any) {
+    logger.error("Failed to mask image regions:", error);
+    throw error;
+  }
+}
+
+/**
+ * Cut a region (in image pixels) out of an image
+ */
+export async function cropImage(base64Image: string, region: ImageRegion): Promise<string> {
+  try {
+    const cropped = await sharp(base64ToBuffer(base64Image))
+      .extract({
+        left: region.x1,
+        top: region.y1,
+        width: region.x2 - region.x1,
+        height: region.y2 - region.y1,
+      })
+      .png()
+      .toBuffer();
+    return bufferToBase64(cropped);
+  } catch (error: any) {
+    logger.error("Failed to crop image:", error);
+    throw error;
+  }
+}
+
+/**
+ * Cut a region (in image pixels) out of an image and enlarge it by a factor
+ */
+export async function zoomImage(
+  base64Image: string,
+  region: ImageRegion,
+  factor: number,
+): Promise<string> {
+  try {
+    const width = region.x2 - region.x1;
+    const height = region.y2 - region.y1;
+    const cropped = await sharp(base64ToBuffer(base64Image))
+      .extract({ left: region.x1, top: region.y1, width, height })
+      .toBuffer();
+    const zoomed = await sharp(cropped)
+      .resize(Math.round(width * factor), Math.round(height * factor), { fit: "fill" })
+      .png()
+      .toBuffer();
+    return bufferToBase64(zoomed);
+  } catch (error: any) {
+    logger.error("Failed to zoom image:", error);
+    throw error;
+  }
+}
+
+export interface ImageEncodingOptions {
+  maxLongEdge?: number; // Downscale so the longer side has at most this many pixels (default: no limit)
+  format?: "png" | "jpeg" | "webp"; // Default: "png"
+  quality?: number; // JPEG / WebP quality, 1-100 (default: 80)
+}
+
+/**
+ * Downscale and re-encode a screenshot for a vision model. Positions on the
+ * image scale by `scale`; percentages of its size are unaffected.
+ */
+export async function encodeForVision(
+  base64Image: string,
+  options: ImageEncodingOptions = {},
+): Promise<{ image: string; mimeType: string; width: number; height: number; scale: number }> {
+  try {
+    const { format = "png", quality = 80, maxLongEdge } = options;
+    const original = await getImageSize(base64Image);
+    const longEdge = Math.max(original.width, original.height);
+    const scale = maxLongEdge && longEdge > maxLongEdge ? maxLongEdge / longEdge : 1;
+    const width = Math.max(1, Math.round(original.width * scale));
+    const height = Math.max(1, Math.round(original.height * scale));
+
+    let pipeline = sharp(base64ToBuffer(base64Image));
+    if (scale < 1) {
+      pipeline = pipeline.resize(width, height, { fit: "fill" });
+    }
+    if (format === "jpeg") {
+      pipeline = pipeline.flatten({ background: "#ffffff" }).jpeg({ quality });
+    } else if (format === "webp") {
+      pipeline = pipeline.webp({ quality });
+    } else {
+      pipeline = pipeline.png();
+    }
+    const encoded = await pipeline.toBuffer();
+
+    logger.debug(
+      `Encoded screenshot as ${format} ${width}x${height} (${Math.round(encoded.length / 1024)} KB)`,
+    );
+    return {
+      image: bufferToBase64(encoded),
+      mimeType: `image/${format}`,
+      width,
+      height,
+      scale,
+    };
+  } catch (error: any) {
+    logger.error("Failed to encode image:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Baseline Store - reference screenshots for visual regression checks
+ */
+
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ElementLocator } from "../types";
+import type { ImageRegion } from "../utils/imageProcessor";
+
+export interface VisualRegressionConfig {
+  baselineDir?: string; // Where baselines are stored (default: ".mobile-agent/baselines")
+  artifactsDir?: string; // Where baseline / actual / diff PNGs of mismatches go (default: $ARTIFACTS_DIR)
+  threshold?: number; // Color distance (0-1) up to which pixels count as equal (default: 0.1)
+  maxDiffRatio?: number; // Share of pixels allowed to differ (default: 0.001)
+  updateBaselines?: boolean; // Record every screen as the new baseline (default: false)
+}
+
+/**
+ * Options of a single matchScreenshot() call, over the configured defaults
+ */
+export interface MatchScreenshotOptions {
+  threshold?: number;
+  maxDiffRatio?: number;
+  ignoreRegions?: ImageRegion[]; // Areas left out, in screenshot pixels
+  mask?: ElementLocator[]; // Elements left out by their bounds (clocks, status bar, ...)
+  updateBaseline?: boolean; // Record the current screen as the baseline
+}
+
+export const DEFAULT_BASELINE_DIR = ".mobile-agent/baselines";
+
+/**
+ * Stores one PNG per named screen in a directory
+ */
+export class BaselineStore {
+  constructor(readonly dir: string = DEFAULT_BASELINE_DIR) {}
+
+  /**
+   * File name for a screen name, safe on every file system. Names that had to
+   * be changed get a short hash of the original, so "a/b" and "a_b" differ.
+   */
+  static fileName(name: string): string {
+    const safe = name
+      .trim()
+      .replace(/[^\w.-]+/g, "_")
+      .replace(/^[._]+|_+$/g, "");
+    if (safe === name) {
+      return safe;
+    }
+    const hash = createHash("sha1").update(name).digest("hex").slice(0, 8);
+    return `${safe || "screen"}-${hash}`;
+  }
+
+  pathFor(name: string): string {
+    return path.join(this.dir, `${BaselineStore.fileName(name)}.png`);
+  }
+
+  has(name: string): boolean {
+    return fs.existsSync(this.pathFor(name));
+  }
+
+  load(name: string): Buffer | undefined {
+    const file = this.pathFor(name);
+    return fs.existsSync(file) ? fs.readFileSync(file) : undefined;
+  }
+
+  /**
+   * Write the baseline of a screen, returning its path
+   */
+  save(name: string, png: Buffer): string {
+    const file = this.pathFor(name);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, png);
+    return file;
+  }
+}
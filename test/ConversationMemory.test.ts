@@ -0,0 +1,207 @@
+/**
+ * Tests for the conversation memory and how providers replay it as chat turns
+ */
+
+import { MobileAgent } from "../src/MobileAgent";
+import { BaseLLMProvider } from "../src/llm/LLMProvider";
+import { OpenAIProvider } from "../src/llm/OpenAIProvider";
+import { ConversationMemory } from "../src/memory/ConversationMemory";
+import {
+  type ActionStep,
+  ActionType,
+  type ChatTurn,
+  type UIElement,
+  UIElementType,
+  type UIState,
+  VerificationStatus,
+} from "../src/types";
+
+const element = (elementId: string, text: string): UIElement => ({
+  elementId,
+  elementType: UIElementType.BUTTON,
+  text,
+  clickable: true,
+  enabled: true,
+  scrollable: false,
+  focusable: true,
+  longClickable: false,
+  checked: false,
+  visible: true,
+  bounds: { x1: 0, y1: 0, x2: 100, y2: 50 },
+});
+
+const screen = (activity: string, ...labels: string[]): UIState => ({
+  activity,
+  elements: labels.map((label, i) => element(String(i + 1), label)),
+  timestamp: new Date(),
+  deviceInfo: {},
+});
+
+const step = (success: boolean, targetElement?: UIElement, error?: string): ActionStep => ({
+  actionType: ActionType.CLICK,
+  targetElement,
+  parameters: {},
+  description: "",
+  timestamp: new Date(),
+  success,
+  error,
+});
+
+const click = (reasoning: string) => ({ action: "click", reasoning });
+
+describe("ConversationMemory", () => {
+  it("replays screens, actions, outcomes and verdicts as alternating turns", () => {
+    const memory = new ConversationMemory();
+    const login = screen("Login", "Email", "Sign in");
+
+    memory.startTask("sign in");
+    memory.recordAction(click("Tap sign in"), step(true, login.elements[1]), login);
+    memory.observe(screen("Home", "Welcome"));
+    memory.recordVerification({
+      name: "home is shown",
+      description: "home is shown",
+      assertionType: "llm_verification",
+      expectedValue: true,
+      status: VerificationStatus.PASSED,
+      confidence: 0.9,
+    });
+
+    expect(memory.toTurns()).toEqual([
+      {
+        role: "user",
+        content: 'Task: sign in\nScreen: Login (2 visible elements): "Email", "Sign in"',
+      },
+      {
+        role: "assistant",
+        content: '{"action":"click","target":"button \\"Sign in\\" [2]","reasoning":"Tap sign in"}',
+      },
+      {
+        role: "user",
+        content:
+          'Result: succeeded, the screen changed\nChecked "home is shown": passed (confidence 0.9)',
+      },
+    ]);
+  });
+
+  it("tells when an action left the screen unchanged or failed", () => {
+    const memory = new ConversationMemory();
+    const list = screen("List", "Item");
+
+    memory.recordAction(click("Open item"), step(true, list.elements[0]), list);
+    memory.observe(screen("List", "Item"));
+    memory.recordAction(
+      click("Open item again"),
+      step(false, undefined, "Element not found"),
+      list,
+    );
+
+    const [first, second] = memory.getEntries();
+    expect(first).toMatchObject({ screenChanged: false });
+    expect(second).toMatchObject({ success: false, error: "Element not found" });
+    expect(memory.toTurns().map((t) => t.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(memory.toTurns()[4].content).toBe("Result: failed (Element not found)");
+  });
+
+  it("folds the oldest entries into a summary past the token budget", () => {
+    const memory = new ConversationMemory({ maxTokens: 200, keepRecent: 2 });
+    memory.startTask("browse");
+    for (let i = 0; i < 10; i++) {
+      const state = screen(`Screen${i}`, `Next ${i}`);
+      memory.recordAction(click(`Go to screen ${i + 1}`), step(i !== 3, state.elements[0]), state);
+      memory.observe(screen(`Screen${i + 1}`, `Next ${i + 1}`));
+    }
+
+    expect(memory.getEntries().length).toBeGreaterThanOrEqual(2);
+    expect(memory.getEntries().length).toBeLessThan(10);
+    const [summary] = memory.toTurns();
+    expect(summary.role).toBe("user");
+    expect(summary.content).toContain("Earlier in this session (summarized)");
+    expect(summary.content).toContain("1 failed");
+    expect(summary.content).toContain("Screens visited: ");
+    expect(memory.estimateTokens()).toBeLessThanOrEqual(200);
+  });
+});
+
+describe("Providers with conversation memory", () => {
+  it("send the memory as chat turns instead of prompt lines", async () => {
+    const provider = new OpenAIProvider("key");
+    const create = jest.fn().mockResolvedValue({
+      choices: [{ message: { content: '{"passed":true,"confidence":0.9}' } }],
+    });
+    (provider as any).client.chat.completions.create = create;
+
+    const memory = new ConversationMemory();
+    const login = screen("Login", "Sign in");
+    memory.startTask("sign in");
+    memory.recordAction(click("Tap sign in"), step(true, login.elements[0]), login);
+
+    await provider.verifyCondition(screen("Home", "Welcome"), "home is shown", memory);
+
+    const { messages } = create.mock.calls[0][0];
+    expect(messages.map((m: any) => m.role)).toEqual(["user", "assistant", "user"]);
+    expect(messages[2].content).toMatch(/^Result: succeeded\n\n.*Condition to verify/s);
+    expect(messages[2].content).not.toContain("Actions taken:");
+  });
+
+  it("still embeds plain history lines in the prompt", async () => {
+    const provider = new OpenAIProvider("key");
+    const create = jest.fn().mockResolvedValue({
+      choices: [{ message: { content: '{"passed":true,"confidence":0.9}' } }],
+    });
+    (provider as any).client.chat.completions.create = create;
+
+    await provider.verifyCondition(screen("Home"), "home is shown", ["click - Tap sign in"]);
+
+    const { messages } = create.mock.calls[0][0];
+    expect(messages).toHaveLength(1);
+    expect(messages[0].content).toContain("Actions taken:\nclick - Tap sign in");
+  });
+});
+
+describe("MobileAgent conversation memory", () => {
+  class RecordingProvider extends BaseLLMProvider {
+    turns: ChatTurn[][] = [];
+
+    async query(_prompt: string, _systemPrompt?: string, turns: ChatTurn[] = []): Promise<string> {
+      this.turns.push(turns);
+      return '{"action":"click","element_id":"1","reasoning":"Tap next","confidence":0.9}';
+    }
+    async queryWithVision(): Promise<string> {
+      throw new Error("not used");
+    }
+  }
+
+  it("replays earlier actions and whether they changed the screen", async () => {
+    const page = (text: string) =>
+      `<hierarchy><android.widget.Button text="${text}" clickable="true" bounds="[0,0][100,100]"/></hierarchy>`;
+    const driver: any = {
+      getPageSource: jest
+        .fn()
+        .mockResolvedValueOnce(page("Next"))
+        .mockResolvedValueOnce(page("Next"))
+        .mockResolvedValue(page("Finish")),
+      getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+      capabilities: { platformName: "Android" },
+      performActions: jest.fn().mockResolvedValue(undefined),
+      releaseActions: jest.fn().mockResolvedValue(undefined),
+      pause: jest.fn().mockResolvedValue(undefined),
+    };
+    const provider = new RecordingProvider();
+    const agent = new MobileAgent({ driver, llmProvider: provider, enableVisionFallback: false });
+
+    await agent.startSession();
+    await agent.execute("tap next");
+    await agent.execute("tap finish");
+
+    expect(provider.turns[0]).toEqual([]);
+    expect(provider.turns[1][0].content).toContain("Task: tap next");
+    expect(provider.turns[1][2].content).toBe("Result: succeeded, the screen changed");
+    expect(agent.getMemory().getEntries()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for the record-and-replay decision cache
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { MobileAgent } from "../src/MobileAgent";
+import { DecisionCache } from "../src/cache/DecisionCache";
+import { type UIElement, UIElementType, VisionMethod } from "../src/types";
+
+const element = (overrides: Partial<UIElement> = {}): UIElement => ({
+  elementId: "1",
+  className: "android.widget.Button",
+  text: "Login",
+  elementType: UIElementType.BUTTON,
+  clickable: true,
+  scrollable: false,
+  focusable: true,
+  longClickable: false,
+  checked: false,
+  enabled: true,
+  visible: true,
+  bounds: { x1: 0, y1: 0, x2: 100, y2: 100 },
+  ...overrides,
+});
+
+const HIERARCHY = `<hierarchy>
+  <android.widget.Button text="Login" clickable="true" bounds="[0,0][100,100]"/>
+</hierarchy>`;
+
+const click = { action: "click", elementId: "1", reasoning: "Tap login", confidence: 0.9 };
+
+const makeAgent = (cache: DecisionCache) => {
+  const driver: any = {
+    getPageSource: jest.fn().mockResolvedValue(HIERARCHY),
+    getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+    capabilities: { platformName: "Android" },
+    getWindowSize: jest.fn().mockResolvedValue({ width: 400, height: 800 }),
+    performActions: jest.fn().mockResolvedValue(undefined),
+    releaseActions: jest.fn().mockResolvedValue(undefined),
+    pause: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const agent = new MobileAgent({ driver, apiKey: "test-key", decisionCache: cache }) as any;
+  const llm = { generateAction: jest.fn().mockResolvedValue({ ...click }) };
+  agent.llm = llm;
+  return { agent, driver, llm };
+};
+
+describe("DecisionCache", () => {
+  it("keys on a normalized instruction and the visible hierarchy", () => {
+    const screen = [element()];
+
+    expect(DecisionCache.key("Tap  Login ", screen)).toBe(DecisionCache.key("tap login", screen));
+    expect(DecisionCache.key("tap login", screen)).not.toBe(
+      DecisionCache.key("tap login", [element({ text: "Sign in" })]),
+    );
+    expect(
+      DecisionCache.fingerprint([element(), element({ elementId: "2", visible: false })]),
+    ).toBe(DecisionCache.fingerprint(screen));
+  });
+
+  it("stores, counts hits and deletes decisions", () => {
+    const cache = new DecisionCache();
+    const screen = [element()];
+
+    expect(cache.get("tap login", screen)).toBeUndefined();
+    cache.set("tap login", screen, click, VisionMethod.HIERARCHY);
+
+    expect(cache.get("tap login", screen)?.response).toEqual(click);
+    expect(cache.get("tap login", screen)?.hits).toBe(2);
+    expect(cache.delete("tap login", screen)).toBe(true);
+    expect(cache.size).toBe(0);
+  });
+
+  it("round-trips through a cache file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "decision-cache-"));
+    const file = path.join(dir, "nested", "decisions.json");
+
+    try {
+      const cache = new DecisionCache({ path: file });
+      cache.set("tap login", [element()], click, VisionMethod.VISION_TAGGING);
+      cache.save();
+
+      const reloaded = new DecisionCache({ path: file });
+      expect(reloaded.size).toBe(1);
+      expect(reloaded.get("tap login", [element()])?.method).toBe(VisionMethod.VISION_TAGGING);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("ignores cache files with an unknown version", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "decision-cache-"));
+    const file = path.join(dir, "decisions.json");
+
+    try {
+      fs.writeFileSync(file, JSON.stringify({ version: 99, entries: { a: {} } }));
+      expect(new DecisionCache({ path: file }).size).toBe(0);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("MobileAgent with a decision cache", () => {
+  it("records a miss and replays the hit without calling the LLM", async () => {
+    const cache = new DecisionCache();
+    const { agent, driver, llm } = makeAgent(cache);
+
+    await agent.startSession();
+    await agent.execute("tap login");
+    await agent.execute("Tap login");
+
+    expect(llm.generateAction).toHaveBeenCalledTimes(1);
+    expect(driver.performActions).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(1);
+
+    const steps = agent.testResult.steps;
+    expect(steps[0].description).toBe("[hierarchy] Tap login");
+    expect(steps[1].description).toBe("[hierarchy, cached] Tap login");
+  });
+
+  it("falls back to the LLM and refreshes the entry when a replay fails", async () => {
+    const cache = new DecisionCache();
+    const { agent, driver, llm } = makeAgent(cache);
+
+    await agent.startSession();
+    await agent.execute("tap login");
+
+    driver.performActions.mockRejectedValueOnce(new Error("stale element"));
+    llm.generateAction.mockResolvedValueOnce({ ...click, reasoning: "Tap login again" });
+    await agent.execute("tap login");
+
+    expect(llm.generateAction).toHaveBeenCalledTimes(2);
+    const steps = agent.testResult.steps;
+    expect(steps).toHaveLength(3);
+    expect(steps[1].success).toBe(false);
+    expect(steps[2].success).toBe(true);
+
+    const screen = agent.currentState.elements;
+    expect(cache.get("tap login", screen)?.response.reasoning).toBe("Tap login again");
+  });
+
+  it("saves a file-backed cache when the session stops", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "decision-cache-"));
+    const file = path.join(dir, "decisions.json");
+
+    try {
+      const { agent } = makeAgent(new DecisionCache({ path: file }));
+      await agent.startSession();
+      await agent.execute("tap login");
+      await agent.stopSession("success");
+
+      expect(new DecisionCache({ path: file }).size).toBe(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
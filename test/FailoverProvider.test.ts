@@ -0,0 +1,168 @@
+/**
+ * Tests for the provider failover chain
+ */
+
+import { MobileAgent } from "../src/MobileAgent";
+import { BudgetExceededError } from "../src/errors";
+import { FailoverProvider } from "../src/llm/FailoverProvider";
+import { BaseLLMProvider } from "../src/llm/LLMProvider";
+import { registerLLMProvider, unregisterLLMProvider } from "../src/llm/registry";
+import type { UIState } from "../src/types";
+
+/**
+ * Provider answering from a script; Error entries are thrown
+ */
+class ScriptedProvider extends BaseLLMProvider {
+  calls = 0;
+
+  constructor(
+    readonly model: string,
+    private responses: Array<string | Error>,
+    readonly supportsVision = true,
+  ) {
+    super();
+  }
+
+  async query(): Promise<string> {
+    return this.next(0);
+  }
+  async queryWithVision(): Promise<string> {
+    return this.next(1);
+  }
+
+  private next(images: number): string {
+    this.calls++;
+    this.reportUsage({ model: this.model, inputTokens: 10, outputTokens: 5, images, latencyMs: 1 });
+    const response = this.responses.shift() ?? "{}";
+    if (response instanceof Error) throw response;
+    return response;
+  }
+}
+
+const click = (confidence: number) =>
+  `{"action":"click","element_id":"1","reasoning":"Tap next","confidence":${confidence}}`;
+
+const state: UIState = {
+  activity: "Main",
+  elements: [],
+  timestamp: new Date(),
+  deviceInfo: { platform: "android" },
+} as any;
+
+describe("FailoverProvider", () => {
+  it("escalates on errors, unparseable JSON and low confidence", async () => {
+    const failing = new ScriptedProvider("a", [new Error("boom")]);
+    const garbled = new ScriptedProvider("b", ["not json at all"]);
+    const unsure = new ScriptedProvider("c", [click(0.4)]);
+    const strong = new ScriptedProvider("d", [click(0.95)]);
+    const chain = new FailoverProvider(
+      [failing, garbled, unsure, strong].map((p) => ({ provider: p, label: p.model })),
+      0.7,
+    );
+
+    const response = await chain.generateAction(state, "tap next", []);
+
+    expect(response).toMatchObject({ action: "click", confidence: 0.95 });
+    expect(response.models).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("stops at the first acceptable answer", async () => {
+    const cheap = new ScriptedProvider("cheap", ['{"passed":true,"confidence":0.9}']);
+    const strong = new ScriptedProvider("strong", []);
+    const chain = new FailoverProvider([
+      { provider: cheap, label: "cheap" },
+      { provider: strong, label: "strong" },
+    ]);
+
+    const verdict = await chain.verifyCondition(state, "next is shown", []);
+
+    expect(verdict).toMatchObject({ passed: true, models: ["cheap"] });
+    expect(strong.calls).toBe(0);
+  });
+
+  it("returns the last answer when none is good enough and rethrows when all fail", async () => {
+    const chain = new FailoverProvider([
+      { provider: new ScriptedProvider("a", [click(0.3)]), label: "a" },
+      { provider: new ScriptedProvider("b", [new Error("down")]), label: "b" },
+    ]);
+    const response = await chain.generateAction(state, "tap next", []);
+    expect(response).toMatchObject({ confidence: 0.3, models: ["a"] });
+
+    const broken = new FailoverProvider([
+      { provider: new ScriptedProvider("a", [new Error("first")]), label: "a" },
+      { provider: new ScriptedProvider("b", [new Error("second")]), label: "b" },
+    ]);
+    await expect(broken.query("prompt")).rejects.toThrow("second");
+  });
+
+  it("skips providers without vision for vision requests and forwards usage", async () => {
+    const textOnly = new ScriptedProvider("text", [], false);
+    const vision = new ScriptedProvider("vision", ["ok"]);
+    const chain = new FailoverProvider([
+      { provider: textOnly, label: "text" },
+      { provider: vision, label: "vision" },
+    ]);
+    const onUsage = jest.fn();
+    chain.onUsage = onUsage;
+
+    await expect(chain.queryWithVision("prompt", "b64")).resolves.toBe("ok");
+    expect(textOnly.calls).toBe(0);
+    expect(chain.supportsVision).toBe(true);
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ model: "vision", images: 1 }));
+  });
+});
+
+describe("MobileAgent failover", () => {
+  const driver: any = {
+    getPageSource: jest
+      .fn()
+      .mockResolvedValue(
+        '<hierarchy><android.widget.Button text="Next" clickable="true" bounds="[0,0][100,100]"/></hierarchy>',
+      ),
+    getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+    capabilities: { platformName: "Android" },
+    performActions: jest.fn().mockResolvedValue(undefined),
+    releaseActions: jest.fn().mockResolvedValue(undefined),
+    pause: jest.fn().mockResolvedValue(undefined),
+  };
+
+  afterEach(() => unregisterLLMProvider("scripted"));
+
+  it("reports the providers tried in the step description", async () => {
+    const cheap = new ScriptedProvider("cheap-model", [click(0.5)]);
+    registerLLMProvider(
+      "scripted",
+      ({ model }) => new ScriptedProvider(model || "default", [click(0.9)]),
+    );
+    const agent = new MobileAgent({
+      driver,
+      llmProvider: cheap,
+      enableVisionFallback: false,
+      failover: { providers: [{ provider: "scripted", model: "strong-model" }] },
+    });
+
+    await agent.startSession();
+    await agent.execute("tap next");
+    const result = await agent.stopSession("success");
+
+    expect(result.steps[0].description).toBe("[hierarchy, cheap-model → strong-model] Tap next");
+    expect(result.steps[0].model).toBe("strong-model");
+    expect(result.metadata.usage.byModel).toHaveProperty("strong-model");
+  });
+
+  it("does not escalate past the budget", async () => {
+    const cheap = new ScriptedProvider("cheap-model", [click(0.5)]);
+    const strong = new ScriptedProvider("strong-model", [click(0.9)]);
+    const agent = new MobileAgent({
+      driver,
+      llmProvider: cheap,
+      enableVisionFallback: false,
+      budget: { perExecute: { maxCalls: 1 } },
+      failover: { providers: [strong] },
+    });
+
+    await agent.startSession();
+    await expect(agent.execute("tap next")).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(strong.calls).toBe(0);
+  });
+});
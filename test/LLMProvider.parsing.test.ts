@@ -61,4 +61,62 @@ describe("LLM parsing with code fences", () => {
     );
     expect(res.coordinates).toEqual({ x: 50, y: 80 });
   });
+
+  it("parses terminal actions without a target in vision tiers", async () => {
+    const p = new MockLLMProvider();
+    (ui as any).screenshotBase64 = "base64";
+    (ui as any).tagMapping = new Map();
+    (ui as any).gridMap = new Map();
+    p.setResponse('{"action":"fail","reason":"No billing menu on this screen","confidence":0.9}');
+
+    const tagged = await p.generateActionWithVisionTagging(ui, "open billing", []);
+    expect(tagged.action).toBe("fail");
+    expect(tagged.reason).toBe("No billing menu on this screen");
+
+    const grid = await p.generateActionWithGridOverlay(ui, "open billing", []);
+    expect(grid.action).toBe("fail");
+
+    p.setResponse('```json\n{"action":"done","reasoning":"Already on billing"}\n```');
+    const pure = await p.generateActionWithPureVision(
+      "b64",
+      "open billing",
+      {
+        width: 100,
+        height: 100,
+      },
+      [],
+    );
+    expect(pure.action).toBe("done");
+    expect(pure.coordinates).toBeUndefined();
+  });
+
+  it("parses verification evidence as element IDs", async () => {
+    const p = new MockLLMProvider();
+    p.setResponse(
+      '```json\n{"passed":true,"assertions":[{"description":"Title shown","passed":true}],"evidence":[4,"7"],"confidence":0.8}\n```',
+    );
+    const res = await p.verifyCondition(ui, "title shown", []);
+    expect(res.passed).toBe(true);
+    expect(res.assertions).toHaveLength(1);
+    expect(res.evidence).toEqual(["4", "7"]);
+  });
+
+  it("maps tag numbers cited by vision verification to element IDs", async () => {
+    const p = new MockLLMProvider();
+    p.setResponse('{"passed":false,"issues":["Button is grey"],"evidence":[2],"confidence":0.7}');
+    const tagged: UIState = {
+      ...ui,
+      screenshotBase64: "b64",
+      tagMapping: new Map([[2, { elementId: "15" } as any]]),
+    };
+
+    const res = await p.verifyConditionWithVision(tagged, "button is red", []);
+    expect(res.passed).toBe(false);
+    expect(res.evidence).toEqual(["15"]);
+    expect(res.method).toBe("vision-tagging");
+    const noScreenshot: UIState = { ...ui, screenshotBase64: undefined };
+    await expect(p.verifyConditionWithVision(noScreenshot, "button is red", [])).rejects.toThrow(
+      /Screenshot not available/,
+    );
+  });
 });
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for the pluggable LLM provider registry
+ */
+
+import { MobileAgent } from "../src/MobileAgent";
+import { AnthropicProvider } from "../src/llm/AnthropicProvider";
+import { BaseLLMProvider } from "../src/llm/LLMProvider";
+import { OpenAIProvider } from "../src/llm/OpenAIProvider";
+import {
+  createLLMProvider,
+  hasLLMProvider,
+  listLLMProviders,
+  registerLLMProvider,
+  unregisterLLMProvider,
+} from "../src/llm/registry";
+
+class GatewayProvider extends BaseLLMProvider {
+  constructor(
+    public apiKey?: string,
+    public model?: string,
+  ) {
+    super();
+  }
+  async query(): Promise<string> {
+    return "{}";
+  }
+  async queryWithVision(): Promise<string> {
+    return "{}";
+  }
+}
+
+const mockDriver: any = {
+  getPageSource: jest.fn().mockResolvedValue("<hierarchy></hierarchy>"),
+  capabilities: { platformName: "Android" },
+};
+
+describe("LLM provider registry", () => {
+  afterEach(() => {
+    unregisterLLMProvider("gateway");
+  });
+
+  it("registers the built-in providers", () => {
+    expect(listLLMProviders()).toEqual(expect.arrayContaining(["openai", "anthropic"]));
+    expect(createLLMProvider("openai", { apiKey: "k" })).toBeInstanceOf(OpenAIProvider);
+    expect(createLLMProvider("anthropic", { apiKey: "k" })).toBeInstanceOf(AnthropicProvider);
+  });
+
+  it("creates custom providers from a registered factory", () => {
+    registerLLMProvider("Gateway", ({ apiKey, model }) => new GatewayProvider(apiKey, model));
+
+    expect(hasLLMProvider("gateway")).toBe(true);
+    const provider = createLLMProvider("gateway", { apiKey: "token", model: "internal-1" });
+    expect(provider).toBeInstanceOf(GatewayProvider);
+    expect((provider as GatewayProvider).model).toBe("internal-1");
+  });
+
+  it("rejects unknown provider names and lists the registered ones", () => {
+    expect(() => createLLMProvider("nope")).toThrow(/Unknown LLM provider: nope.*openai/);
+  });
+
+  it("lets MobileAgent resolve providers by name through the registry", () => {
+    const factory = jest.fn(({ apiKey, model }) => new GatewayProvider(apiKey, model));
+    registerLLMProvider("gateway", factory);
+
+    const agent = new MobileAgent({ driver: mockDriver, apiKey: "token", llmProvider: "gateway" });
+
+    expect(factory).toHaveBeenCalledWith({ apiKey: "token", model: undefined });
+    expect((agent as any).llm).toBeInstanceOf(GatewayProvider);
+  });
+
+  it("accepts a ready-made provider instance", () => {
+    const provider = new GatewayProvider();
+    const agent = new MobileAgent({ driver: mockDriver, apiKey: "", llmProvider: provider });
+
+    expect((agent as any).llm).toBe(provider);
+  });
+
+  describe("without an apiKey", () => {
+    const env = process.env;
+
+    beforeEach(() => {
+      process.env = Object.fromEntries(
+        Object.entries(env).filter(([name]) => !name.endsWith("_API_KEY")),
+      );
+    });
+
+    afterEach(() => {
+      process.env = env;
+    });
+
+    it("fails at construction when no environment key is set either", () => {
+      expect(() => new MobileAgent({ driver: mockDriver })).toThrow(
+        "OpenAI API key missing: pass apiKey or set OPENAI_API_KEY",
+      );
+      expect(() => createLLMProvider("anthropic")).toThrow(/set ANTHROPIC_API_KEY/);
+    });
+
+    it("lets the SDKs read the key from the environment", () => {
+      process.env.OPENAI_API_KEY = "sk-env";
+      process.env.ANTHROPIC_API_KEY = "sk-ant-env";
+
+      const agent = new MobileAgent({ driver: mockDriver });
+      const anthropic = createLLMProvider("anthropic") as AnthropicProvider;
+
+      expect((agent as any).llm.client.apiKey).toBe("sk-env");
+      expect((anthropic as any).client.apiKey).toBe("sk-ant-env");
+    });
+  });
+});
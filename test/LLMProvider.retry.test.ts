@@ -0,0 +1,165 @@
+/**
+ * Tests for the retry, timeout and circuit breaker layer of BaseLLMProvider
+ */
+
+import { MobileAgent } from "../src/MobileAgent";
+import { CircuitOpenError, LLMTimeoutError } from "../src/errors";
+import { BaseLLMProvider } from "../src/llm/LLMProvider";
+import { OpenAIProvider } from "../src/llm/OpenAIProvider";
+import { isRetryableError, retryAfterMs } from "../src/llm/retry";
+import type { RetryPolicy } from "../src/types";
+
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`${status} error`), { status, headers });
+
+const FAST: RetryPolicy = { initialDelayMs: 1, maxDelayMs: 5 };
+
+/**
+ * Provider whose requests are served by a mock, through withRetry
+ */
+class MockProvider extends BaseLLMProvider {
+  request = jest.fn();
+
+  async query(): Promise<string> {
+    return this.withRetry((signal) => this.request(signal));
+  }
+  async queryWithVision(): Promise<string> {
+    return this.withRetry((signal) => this.request(signal));
+  }
+}
+
+describe("Retryable errors", () => {
+  it("retries rate limits, overload, server errors, timeouts and dropped connections", () => {
+    for (const status of [408, 429, 500, 503, 529]) {
+      expect(isRetryableError(apiError(status))).toBe(true);
+    }
+    expect(isRetryableError(new LLMTimeoutError(10))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error("reset"), { code: "ECONNRESET" }))).toBe(true);
+
+    for (const status of [400, 401, 403, 404]) {
+      expect(isRetryableError(apiError(status))).toBe(false);
+    }
+    expect(isRetryableError(new SyntaxError("bad json"))).toBe(false);
+  });
+
+  it("reads retry-after in milliseconds, seconds or as an HTTP date", () => {
+    expect(retryAfterMs(apiError(429, { "retry-after-ms": "250" }))).toBe(250);
+    expect(retryAfterMs(apiError(429, { "retry-after": "2" }))).toBe(2000);
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const fromDate = retryAfterMs(apiError(429, { "retry-after": date })) as number;
+    expect(fromDate).toBeGreaterThan(3000);
+    expect(fromDate).toBeLessThanOrEqual(5000);
+    expect(retryAfterMs(apiError(429))).toBeUndefined();
+  });
+});
+
+describe("BaseLLMProvider.withRetry", () => {
+  it("retries transient failures and reports every retry", async () => {
+    const provider = new MockProvider(FAST);
+    provider.request
+      .mockRejectedValueOnce(apiError(429, { "retry-after": "0" }))
+      .mockRejectedValueOnce(apiError(529))
+      .mockResolvedValueOnce("ok");
+    const onRetry = jest.fn();
+    provider.onRetry = onRetry;
+
+    await expect(provider.query()).resolves.toBe("ok");
+
+    expect(provider.request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([
+      { attempt: 1, error: "429 error", status: 429, delayMs: 0 },
+      { attempt: 2, error: "529 error", status: 529, delayMs: expect.any(Number) },
+    ]);
+    expect(onRetry.mock.calls[1][0].delayMs).toBeLessThanOrEqual(5);
+  });
+
+  it("gives up after maxRetries and does not retry client errors", async () => {
+    const provider = new MockProvider({ ...FAST, maxRetries: 2 });
+    provider.request.mockRejectedValue(apiError(503));
+    await expect(provider.query()).rejects.toThrow("503 error");
+    expect(provider.request).toHaveBeenCalledTimes(3);
+
+    const strict = new MockProvider(FAST);
+    strict.request.mockRejectedValue(apiError(401));
+    await expect(strict.query()).rejects.toThrow("401 error");
+    expect(strict.request).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out and aborts a hanging attempt", async () => {
+    const provider = new MockProvider({ ...FAST, maxRetries: 0, timeoutMs: 20 });
+    let signal: AbortSignal | undefined;
+    provider.request.mockImplementation((s: AbortSignal) => {
+      signal = s;
+      return new Promise(() => undefined); // Never settles
+    });
+
+    await expect(provider.query()).rejects.toBeInstanceOf(LLMTimeoutError);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it("opens the circuit after repeated failures and closes it after a good trial", async () => {
+    const provider = new MockProvider({
+      ...FAST,
+      maxRetries: 0,
+      circuitBreakerThreshold: 2,
+      circuitBreakerCooldownMs: 30,
+    });
+    provider.request.mockRejectedValue(apiError(503));
+
+    await expect(provider.query()).rejects.toThrow("503 error");
+    await expect(provider.query()).rejects.toThrow("503 error");
+    await expect(provider.query()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(provider.request).toHaveBeenCalledTimes(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    provider.request.mockResolvedValue("back");
+    await expect(provider.query()).resolves.toBe("back");
+    await expect(provider.query()).resolves.toBe("back");
+  });
+
+  it("is used by the OpenAI provider", async () => {
+    const provider = new OpenAIProvider("key", "gpt-4o", FAST);
+    const create = jest
+      .fn()
+      .mockRejectedValueOnce(apiError(429, { "retry-after-ms": "1" }))
+      .mockResolvedValueOnce({ choices: [{ message: { content: "ok" } }] });
+    (provider as any).client.chat.completions.create = create;
+
+    await expect(provider.query("prompt")).resolves.toBe("ok");
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(create.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+  });
+});
+
+describe("MobileAgent retry metadata", () => {
+  it("records retried requests on the step", async () => {
+    const provider = new MockProvider(FAST);
+    provider.request
+      .mockRejectedValueOnce(apiError(429, { "retry-after": "0" }))
+      .mockResolvedValueOnce(
+        '{"action":"click","element_id":"1","reasoning":"Tap","confidence":0.9}',
+      );
+    const driver: any = {
+      getPageSource: jest
+        .fn()
+        .mockResolvedValue(
+          '<hierarchy><android.widget.Button text="Next" clickable="true" bounds="[0,0][100,100]"/></hierarchy>',
+        ),
+      getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+      capabilities: { platformName: "Android" },
+      performActions: jest.fn().mockResolvedValue(undefined),
+      releaseActions: jest.fn().mockResolvedValue(undefined),
+      pause: jest.fn().mockResolvedValue(undefined),
+    };
+    const agent = new MobileAgent({ driver, llmProvider: provider });
+
+    await agent.startSession();
+    await agent.execute("tap next");
+    const result = await agent.stopSession("success");
+
+    expect(result.steps[0].success).toBe(true);
+    expect(result.steps[0].retries).toEqual([
+      { attempt: 1, error: "429 error", status: 429, delayMs: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for native structured output (json_schema response formats and tool use)
+ */
+
+import { AnthropicProvider } from "../src/llm/AnthropicProvider";
+import { OpenAICompatibleProvider } from "../src/llm/OpenAICompatibleProvider";
+import { OpenAIProvider } from "../src/llm/OpenAIProvider";
+import { REFINEMENT_SCHEMA, VERIFICATION_SCHEMA, actionSchema } from "../src/llm/schemas";
+import {
+  ActionType,
+  type UIElement,
+  UIElementType,
+  type UIState,
+  VisionMethod,
+} from "../src/types";
+
+const button: UIElement = {
+  elementId: "7",
+  elementType: UIElementType.BUTTON,
+  text: "Login",
+  clickable: true,
+  enabled: true,
+  scrollable: false,
+  focusable: true,
+  longClickable: false,
+  checked: false,
+  visible: true,
+  bounds: { x1: 0, y1: 0, x2: 100, y2: 50 },
+};
+
+const ui: UIState = {
+  activity: "Main",
+  elements: [button],
+  timestamp: new Date(),
+  deviceInfo: {},
+};
+
+const completion = (content: string) => ({
+  choices: [{ message: { content } }],
+  usage: { prompt_tokens: 10, completion_tokens: 5 },
+});
+
+describe("Response schemas", () => {
+  it("builds the action enum from ActionType and targets per tier", () => {
+    const hierarchy = actionSchema(VisionMethod.HIERARCHY).schema;
+    expect(hierarchy.properties.action.enum).toEqual(Object.values(ActionType));
+    expect(hierarchy.properties).toHaveProperty("element_id");
+
+    expect(actionSchema(VisionMethod.VISION_TAGGING).schema.properties.tag_id.type).toEqual([
+      "integer",
+      "null",
+    ]);
+    expect(actionSchema(VisionMethod.GRID_OVERLAY).schema.properties).toHaveProperty(
+      "grid_position",
+    );
+    expect(actionSchema(VisionMethod.PURE_VISION).schema.properties.location.required).toEqual([
+      "x_percent",
+      "y_percent",
+    ]);
+  });
+
+  it("keeps every object strict: all properties required, optional ones nullable", () => {
+    const isStrict = (schema: any): boolean => {
+      if (Array.isArray(schema.type) ? schema.type.includes("object") : schema.type === "object") {
+        return (
+          schema.additionalProperties === false &&
+          JSON.stringify([...schema.required].sort()) ===
+            JSON.stringify(Object.keys(schema.properties).sort()) &&
+          Object.values(schema.properties).every(isStrict)
+        );
+      }
+      return schema.items ? isStrict(schema.items) : true;
+    };
+
+    for (const method of Object.values(VisionMethod)) {
+      expect(isStrict(actionSchema(method).schema)).toBe(true);
+    }
+    expect(isStrict(VERIFICATION_SCHEMA.schema)).toBe(true);
+    expect(isStrict(REFINEMENT_SCHEMA.schema)).toBe(true);
+
+    const { properties } = actionSchema(VisionMethod.HIERARCHY).schema;
+    expect(properties.action.type).toBe("string");
+    expect(properties.element_id.type).toEqual(["string", "null"]);
+    expect(properties.parameters.properties.direction.enum).toContain(null);
+  });
+});
+
+describe("OpenAIProvider structured output", () => {
+  it("requests the json_schema response format and uses the returned object", async () => {
+    const provider = new OpenAIProvider("key");
+    const create = jest
+      .fn()
+      .mockResolvedValue(
+        completion('{"action":"click","element_id":"7","reasoning":"Log in","confidence":0.9}'),
+      );
+    (provider as any).client.chat.completions.create = create;
+
+    const response = await provider.generateAction(ui, "log in", []);
+
+    expect(response).toMatchObject({ action: "click", elementId: "7", confidence: 0.9 });
+    const request = create.mock.calls[0][0];
+    expect(request.response_format).toMatchObject({
+      type: "json_schema",
+      json_schema: { name: "select_action", strict: true },
+    });
+    expect(request.response_format.json_schema.schema.properties).toHaveProperty("element_id");
+  });
+
+  it("treats the nulls of a strict reply as absent fields", async () => {
+    const provider = new OpenAIProvider("key");
+    (provider as any).client.chat.completions.create = jest.fn().mockResolvedValue(
+      completion(
+        JSON.stringify({
+          action: "type_text",
+          element_id: "7",
+          parameters: { text: "alice", direction: null, distance: null },
+          reasoning: "Enter the user name",
+          confidence: 0.9,
+          reason: null,
+        }),
+      ),
+    );
+
+    const response = await provider.generateAction(ui, "type alice", []);
+
+    expect(response.parameters).toEqual({ text: "alice" });
+    expect(response.reason).toBeUndefined();
+  });
+
+  it("reports a refusal as a request error", async () => {
+    const provider = new OpenAIProvider("key");
+    (provider as any).client.chat.completions.create = jest.fn().mockResolvedValue({
+      choices: [{ message: { content: null, refusal: "I can't help with that" } }],
+    });
+
+    await expect(provider.verifyCondition(ui, "logged in", [])).rejects.toThrow("can't help");
+  });
+});
+
+describe("AnthropicProvider structured output", () => {
+  it("forces a tool call and reads its input", async () => {
+    const provider = new AnthropicProvider("key");
+    const create = jest.fn().mockResolvedValue({
+      content: [
+        {
+          type: "tool_use",
+          id: "toolu_1",
+          name: "select_action",
+          input: { action: "click", tag_id: 1, reasoning: "Tagged login", confidence: 0.85 },
+        },
+      ],
+      usage: { input_tokens: 100, output_tokens: 20 },
+    });
+    (provider as any).client.messages.create = create;
+
+    const response = await provider.generateActionWithVisionTagging(
+      { ...ui, screenshotBase64: "b64", tagMapping: new Map([[1, button]]) },
+      "log in",
+      [],
+    );
+
+    expect(response).toMatchObject({ action: "click", elementId: "7", tagId: 1 });
+    const request = create.mock.calls[0][0];
+    expect(request.tool_choice).toEqual({ type: "tool", name: "select_action" });
+    expect(request.tools[0].input_schema.properties).toHaveProperty("tag_id");
+    expect(request.messages[0].content[1]).toMatchObject({ type: "image" });
+  });
+});
+
+describe("OpenAICompatibleProvider structured output", () => {
+  it("parses plain replies loosely unless structured output is enabled", async () => {
+    const plain = new OpenAICompatibleProvider({ model: "llama3.1" });
+    const plainCreate = jest
+      .fn()
+      .mockResolvedValue(completion('Sure:\n```json\n{"passed":true,"confidence":0.9}\n```'));
+    (plain as any).client.chat.completions.create = plainCreate;
+
+    await expect(plain.verifyCondition(ui, "logged in", [])).resolves.toMatchObject({
+      passed: true,
+    });
+    expect(plainCreate.mock.calls[0][0].response_format).toBeUndefined();
+
+    const structured = new OpenAICompatibleProvider({ model: "qwen2.5", structuredOutput: true });
+    const structuredCreate = jest
+      .fn()
+      .mockResolvedValue(completion('{"passed":false,"confidence":0.8,"issues":["Logged out"]}'));
+    (structured as any).client.chat.completions.create = structuredCreate;
+
+    await expect(structured.verifyCondition(ui, "logged in", [])).resolves.toMatchObject({
+      passed: false,
+      issues: ["Logged out"],
+    });
+    expect(structuredCreate.mock.calls[0][0].response_format.json_schema).toMatchObject({
+      name: "report_verification",
+      strict: true,
+    });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Tests for structured assertion results
+ */
+
+import sharp from "sharp";
+import { MobileAgent } from "../src/MobileAgent";
+import { VerificationStatus, VisionMethod } from "../src/types";
+
+const HIERARCHY = `<hierarchy>
+  <android.widget.TextView text="Welcome back" bounds="[0,0][100,50]"/>
+  <android.widget.Button text="Log out" clickable="true" bounds="[0,60][100,110]"/>
+</hierarchy>`;
+
+const makeAgent = (config: Record<string, any> = {}) => {
+  const driver: any = {
+    getPageSource: jest.fn().mockResolvedValue(HIERARCHY),
+    getCurrentActivity: jest.fn().mockResolvedValue("Home"),
+    capabilities: { platformName: "Android" },
+    takeScreenshot: jest.fn().mockResolvedValue("c2NyZWVu"),
+  };
+
+  // Hierarchy-only unless a test enables the vision fallback
+  const agent = new MobileAgent({
+    driver,
+    apiKey: "test-key",
+    enableVisionFallback: false,
+    ...config,
+  }) as any;
+  const llm = { verifyCondition: jest.fn(), verifyConditionWithVision: jest.fn() };
+  agent.llm = llm;
+  return { agent, driver, llm };
+};
+
+const verdict = {
+  passed: true,
+  assertions: [
+    { description: "Welcome text is visible", passed: true },
+    { description: "Log out button is visible", passed: true },
+  ],
+  issues: [],
+  evidence: ["1", "2", "99"],
+  confidence: 0.6,
+};
+
+describe("Structured assertions", () => {
+  it("keeps sub-assertions, confidence, evidence and the screenshot", async () => {
+    const { agent, llm } = makeAgent();
+    llm.verifyCondition.mockResolvedValue(verdict);
+
+    await agent.startSession();
+    const result = await agent.assertDetailed("user is logged in");
+
+    expect(result.status).toBe(VerificationStatus.PASSED);
+    expect(result.assertions).toEqual(verdict.assertions);
+    expect(result.confidence).toBe(0.6);
+    expect(result.evidence.map((e: any) => e.text)).toEqual(["Welcome back", "Log out"]);
+    expect(result.screenshot).toBe("c2NyZWVu");
+    expect(agent.testResult.verificationResults).toEqual([result]);
+  });
+
+  it("reports low-confidence passes as inconclusive", async () => {
+    const { agent, llm } = makeAgent({ assertionPolicy: { minConfidence: 0.7 } });
+    llm.verifyCondition.mockResolvedValue({ ...verdict, issues: [] });
+
+    await agent.startSession();
+    const result = await agent.assertDetailed("user is logged in");
+
+    expect(result.status).toBe(VerificationStatus.INCONCLUSIVE);
+    expect(result.errorMessage).toContain("below the minimum of 0.7");
+    expect(await agent.assert("user is logged in")).toBe(false);
+  });
+
+  it("lets a call override the configured policy", async () => {
+    const { agent, driver, llm } = makeAgent({ assertionPolicy: { minConfidence: 0.7 } });
+    llm.verifyCondition.mockResolvedValue({ ...verdict, issues: [] });
+
+    await agent.startSession();
+    const result = await agent.assertDetailed("user is logged in", {
+      minConfidence: 0.5,
+      captureScreenshot: false,
+    });
+
+    expect(result.status).toBe(VerificationStatus.PASSED);
+    expect(result.screenshot).toBeUndefined();
+    expect(driver.takeScreenshot).not.toHaveBeenCalled();
+  });
+
+  it("never upgrades a failure and records errors", async () => {
+    const { agent, llm } = makeAgent({ assertionPolicy: { minConfidence: 0.9 } });
+    llm.verifyCondition
+      .mockResolvedValueOnce({ passed: false, issues: ["No welcome text"], confidence: 0.3 })
+      .mockRejectedValueOnce(new Error("LLM unavailable"));
+
+    await agent.startSession();
+    const failed = await agent.assertDetailed("user is logged in");
+    const errored = await agent.assertDetailed("user is logged in");
+
+    expect(failed.status).toBe(VerificationStatus.FAILED);
+    expect(failed.errorMessage).toBe("No welcome text");
+    expect(errored.status).toBe(VerificationStatus.ERROR);
+    expect(errored.errorMessage).toBe("LLM unavailable");
+  });
+});
+
+describe("Vision assertions", () => {
+  let png: string;
+
+  beforeAll(async () => {
+    const image = await sharp({
+      create: { width: 120, height: 160, channels: 3, background: "#ffffff" },
+    })
+      .png()
+      .toBuffer();
+    png = image.toString("base64");
+  });
+
+  const visionVerdict = {
+    passed: true,
+    assertions: [{ description: "Log out button is red", passed: true }],
+    issues: [],
+    evidence: ["2"],
+    confidence: 0.9,
+    method: VisionMethod.VISION_TAGGING,
+  };
+
+  it("falls back to the screenshot when hierarchy confidence is low", async () => {
+    const { agent, driver, llm } = makeAgent({
+      enableVisionFallback: true,
+      assertionPolicy: { mode: "auto" },
+    });
+    driver.takeScreenshot.mockResolvedValue(png);
+    llm.verifyCondition.mockResolvedValue({ ...verdict, confidence: 0.4 });
+    llm.verifyConditionWithVision.mockResolvedValue(visionVerdict);
+
+    await agent.startSession();
+    const result = await agent.assertDetailed("the log out button is red", {
+      sparseHierarchyThreshold: 0,
+    });
+
+    expect(llm.verifyCondition).toHaveBeenCalledTimes(1);
+    const [state] = llm.verifyConditionWithVision.mock.calls[0];
+    expect(state.tagMapping.size).toBeGreaterThan(0);
+    expect(result.status).toBe(VerificationStatus.PASSED);
+    expect(result.method).toBe(VisionMethod.VISION_TAGGING);
+    expect(result.confidence).toBe(0.9);
+    expect(result.evidence.map((e: any) => e.text)).toEqual(["Log out"]);
+    expect(result.screenshot).toBe(state.screenshotBase64);
+  });
+
+  it("goes straight to vision when the hierarchy is sparse", async () => {
+    const { agent, driver, llm } = makeAgent({
+      enableVisionFallback: true,
+      assertionPolicy: { mode: "auto" },
+    });
+    driver.takeScreenshot.mockResolvedValue(png);
+    llm.verifyConditionWithVision.mockResolvedValue(visionVerdict);
+
+    await agent.startSession();
+    await agent.assertDetailed("the chart shows a rising line", { sparseHierarchyThreshold: 5 });
+
+    expect(llm.verifyCondition).not.toHaveBeenCalled();
+    expect(llm.verifyConditionWithVision).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the hierarchy verdict when vision fails or is disabled", async () => {
+    const { agent, driver, llm } = makeAgent({
+      enableVisionFallback: true,
+      assertionPolicy: { mode: "auto" },
+    });
+    driver.takeScreenshot.mockResolvedValue(png);
+    llm.verifyCondition.mockResolvedValue({ ...verdict, confidence: 0.4 });
+    llm.verifyConditionWithVision.mockRejectedValue(new Error("vision unavailable"));
+
+    await agent.startSession();
+    const result = await agent.assertDetailed("user is logged in", {
+      sparseHierarchyThreshold: 0,
+    });
+    expect(result.status).toBe(VerificationStatus.PASSED);
+    expect(result.confidence).toBe(0.4);
+
+    const hierarchyOnly = makeAgent();
+    hierarchyOnly.llm.verifyCondition.mockResolvedValue({ ...verdict, confidence: 0.4 });
+    await hierarchyOnly.agent.startSession();
+    await hierarchyOnly.agent.assertDetailed("user is logged in");
+    expect(hierarchyOnly.llm.verifyConditionWithVision).not.toHaveBeenCalled();
+  });
+
+  it("stays on the hierarchy with a provider that cannot verify screenshots", async () => {
+    const { agent, driver } = makeAgent({
+      enableVisionFallback: true,
+      assertionPolicy: { mode: "auto" },
+    });
+    driver.takeScreenshot.mockResolvedValue(png);
+    const llm = { verifyCondition: jest.fn().mockResolvedValue({ ...verdict, confidence: 0.4 }) };
+    agent.llm = llm;
+
+    await agent.startSession();
+    const sparse = await agent.assertDetailed("user is logged in", { sparseHierarchyThreshold: 5 });
+    const forced = await agent.assertDetailed("user is logged in", { mode: "vision" });
+
+    expect(sparse).toMatchObject({ status: VerificationStatus.PASSED, confidence: 0.4 });
+    expect(llm.verifyCondition).toHaveBeenCalledTimes(1);
+    expect(forced.status).toBe(VerificationStatus.ERROR);
+    expect(forced.errorMessage).toMatch(/does not implement verifyConditionWithVision/);
+  });
+
+  it("makes only the hierarchy call by default, even on a sparse screen", async () => {
+    const driver: any = {
+      getPageSource: jest.fn().mockResolvedValue(HIERARCHY),
+      getCurrentActivity: jest.fn().mockResolvedValue("Home"),
+      capabilities: { platformName: "Android" },
+      takeScreenshot: jest.fn().mockResolvedValue(png),
+    };
+    const agent = new MobileAgent({ driver, apiKey: "test-key" }) as any;
+    const llm = {
+      verifyCondition: jest.fn().mockResolvedValue({ ...verdict, confidence: 0.4 }),
+      verifyConditionWithVision: jest.fn(),
+    };
+    agent.llm = llm;
+
+    await agent.startSession();
+    const passed = await agent.assert("user is logged in");
+    await agent.assertDetailed("user is logged in", { sparseHierarchyThreshold: 5 });
+
+    expect(passed).toBe(true);
+    expect(llm.verifyCondition).toHaveBeenCalledTimes(2);
+    expect(llm.verifyConditionWithVision).not.toHaveBeenCalled();
+  });
+
+  it("can verify with an untagged screenshot only", async () => {
+    const { agent, llm } = makeAgent();
+    llm.verifyConditionWithVision.mockResolvedValue({
+      ...visionVerdict,
+      method: VisionMethod.PURE_VISION,
+    });
+
+    await agent.startSession();
+    const result = await agent.assertDetailed("the avatar is a cat", {
+      mode: "vision",
+      tagScreenshot: false,
+    });
+
+    const [state] = llm.verifyConditionWithVision.mock.calls[0];
+    expect(state.tagMapping).toBeUndefined();
+    expect(state.screenshotBase64).toBe("c2NyZWVu");
+    expect(llm.verifyCondition).not.toHaveBeenCalled();
+    expect(result.method).toBe(VisionMethod.PURE_VISION);
+  });
+});
+
+describe("Locator assertions", () => {
+  const SETTINGS = `<hierarchy>
+  <node class="android.widget.Switch" resource-id="com.app:id/wifi" text="Wi-Fi" checked="true" bounds="[0,0][100,50]"/>
+  <node class="android.widget.Switch" resource-id="com.app:id/bluetooth" text="Bluetooth" checked="false" enabled="false" bounds="[0,60][100,110]"/>
+  <node class="android.widget.TextView" text="Network item" bounds="[0,120][100,170]"/>
+  <node class="android.widget.TextView" text="Network item" visible="false" bounds="[0,180][100,230]"/>
+  <node class="android.widget.ImageButton" content-desc="Search" bounds="[0,240][100,290]"/>
+</hierarchy>`;
+
+  const makeLocatorAgent = async () => {
+    const setup = makeAgent();
+    setup.driver.getPageSource.mockResolvedValue(SETTINGS);
+    await setup.agent.startSession();
+    return setup;
+  };
+
+  it("checks existence, state and counts without calling the LLM", async () => {
+    const { agent, llm } = await makeLocatorAgent();
+
+    const checks = [
+      await agent.assertElement({ resourceId: "wifi" }),
+      await agent.assertElement({ resourceId: "com.app:id/wifi" }, "checked"),
+      await agent.assertElement({ text: "Bluetooth" }, "enabled", false),
+      await agent.assertElement({ contentDesc: "Search" }, "visible"),
+      await agent.assertElement({ textContains: "network" }, "count", 2),
+      await agent.assertElement({ text: "Airplane mode" }, "exists", false),
+    ];
+
+    expect(checks.map((c) => c.status)).toEqual(Array(6).fill(VerificationStatus.PASSED));
+    expect(checks[0].name).toBe('element [resourceId="wifi"] exists');
+    expect(checks[2].name).toBe('element [text="Bluetooth"] is not enabled');
+    expect(checks.every((c) => c.assertionType === "locator")).toBe(true);
+    expect(checks[4].evidence).toHaveLength(2);
+    expect(llm.verifyCondition).not.toHaveBeenCalled();
+    expect(agent.testResult.verificationResults).toHaveLength(6);
+  });
+
+  it("fails with the actual value or a missing element", async () => {
+    const { agent } = await makeLocatorAgent();
+
+    const unchecked = await agent.assertElement({ resourceId: "bluetooth" }, "checked");
+    const missing = await agent.assertElement({ text: "Airplane mode" }, "enabled");
+    const count = await agent.assertElement({ className: "android.widget.Switch" }, "count", 3);
+
+    expect(unchecked.status).toBe(VerificationStatus.FAILED);
+    expect(unchecked.errorMessage).toBe("Expected checked to be true, got false");
+    expect(missing.errorMessage).toBe('No element matches [text="Airplane mode"]');
+    expect(count.actualValue).toBe(2);
+  });
+
+  it("treats a missing element as not visible, but not as disabled or unchecked", async () => {
+    const { agent } = await makeLocatorAgent();
+
+    const hidden = await agent.assertElement({ text: "Airplane mode" }, "visible", false);
+    const shown = await agent.assertElement({ text: "Airplane mode" }, "visible");
+    const disabled = await agent.assertElement({ text: "Airplane mode" }, "enabled", false);
+    const unchecked = await agent.assertElement({ text: "Airplane mode" }, "checked", false);
+
+    expect(hidden).toMatchObject({ status: VerificationStatus.PASSED, actualValue: false });
+    expect(shown).toMatchObject({
+      status: VerificationStatus.FAILED,
+      errorMessage: 'No element matches [text="Airplane mode"]',
+    });
+    expect(disabled.errorMessage).toBe('No element matches [text="Airplane mode"]');
+    expect(unchecked.errorMessage).toBe('No element matches [text="Airplane mode"]');
+  });
+
+  it("reports an empty locator as an error", async () => {
+    const { agent } = await makeLocatorAgent();
+
+    const result = await agent.assertElement({});
+
+    expect(result.status).toBe(VerificationStatus.ERROR);
+    expect(result.errorMessage).toMatch(/at least one field/);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for post-action effect detection and the retry of ineffective actions
+ */
+
+import sharp from "sharp";
+import { MobileAgent } from "../src/MobileAgent";
+import { type EffectDetectionConfig, VisionMethod } from "../src/types";
+
+const page = (text: string) => `<hierarchy>
+  <android.widget.Button text="${text}" clickable="true" bounds="[0,0][100,100]"/>
+</hierarchy>`;
+
+/**
+ * Driver whose screen switches to "Done" after the given number of taps
+ */
+const makeDriver = async (tapsToChange: number) => {
+  const png = await sharp({
+    create: {
+      width: 200,
+      height: 400,
+      channels: 4,
+      background: { r: 255, g: 255, b: 255, alpha: 1 },
+    },
+  })
+    .png()
+    .toBuffer();
+  let taps = 0;
+  const driver: any = {
+    getPageSource: jest.fn(async () => (taps >= tapsToChange ? page("Done") : page("Next"))),
+    getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+    capabilities: { platformName: "Android" },
+    getWindowSize: jest.fn().mockResolvedValue({ width: 200, height: 400 }),
+    takeScreenshot: jest.fn().mockResolvedValue(png.toString("base64")),
+    performActions: jest.fn(async () => {
+      taps++;
+    }),
+    releaseActions: jest.fn().mockResolvedValue(undefined),
+    pause: jest.fn().mockResolvedValue(undefined),
+  };
+  return driver;
+};
+
+const makeAgent = (driver: any, effectDetection: EffectDetectionConfig = { enabled: true }) => {
+  const agent = new MobileAgent({ driver, apiKey: "test-key", effectDetection }) as any;
+  const llm = {
+    generateAction: jest
+      .fn()
+      .mockResolvedValue({ action: "click", elementId: "1", reasoning: "Tap", confidence: 0.9 }),
+    generateActionWithVisionTagging: jest.fn().mockResolvedValue({
+      action: "click",
+      elementId: "1",
+      coordinates: { x: 50, y: 50 },
+      reasoning: "Tap tag 1",
+      confidence: 0.9,
+      tagId: 1,
+    }),
+  };
+  agent.llm = llm;
+  return { agent, llm };
+};
+
+describe("Effect detection", () => {
+  it("flags an action that changed neither the hierarchy nor the screenshot", async () => {
+    const { agent, llm } = makeAgent(await makeDriver(Number.POSITIVE_INFINITY));
+
+    await agent.startSession();
+    await agent.execute("tap next");
+
+    const [step] = agent.testResult.steps;
+    expect(step).toMatchObject({ success: true, screenChanged: false, ineffective: true });
+    expect(llm.generateActionWithVisionTagging).not.toHaveBeenCalled();
+    expect(agent.getMemory().toTurns()[2].content).toBe(
+      "Result: succeeded, the screen did not change",
+    );
+  });
+
+  it("marks an action that changed the hierarchy as effective", async () => {
+    const { agent } = makeAgent(await makeDriver(1));
+
+    await agent.startSession();
+    await agent.execute("tap next");
+
+    const [step] = agent.testResult.steps;
+    expect(step.screenChanged).toBe(true);
+    expect(step.ineffective).toBeUndefined();
+  });
+
+  it("is off unless enabled, saving the extra page source reads", async () => {
+    const pageSourceReads = async (config: EffectDetectionConfig) => {
+      const driver = await makeDriver(Number.POSITIVE_INFINITY);
+      const { agent, llm } = makeAgent(driver, config);
+      await agent.startSession();
+      await agent.execute("tap next");
+      expect(llm.generateActionWithVisionTagging).not.toHaveBeenCalled();
+      return {
+        screenChanged: agent.testResult.steps[0].screenChanged,
+        reads: driver.getPageSource.mock.calls.length,
+      };
+    };
+
+    const enabled = await pageSourceReads({ enabled: true });
+    for (const config of [{}, { enabled: false }, { retryWithNextTier: true }]) {
+      const off = await pageSourceReads(config);
+      expect(off.screenChanged).toBeUndefined();
+      expect(off.reads).toBeLessThan(enabled.reads);
+    }
+  });
+
+  it("retries an ineffective action with the next vision tier", async () => {
+    const { agent, llm } = makeAgent(await makeDriver(2), {
+      enabled: true,
+      retryWithNextTier: true,
+    });
+
+    await agent.startSession();
+    await agent.execute("tap next");
+
+    const steps = agent.testResult.steps;
+    expect(steps).toHaveLength(2);
+    expect(steps[0]).toMatchObject({ method: VisionMethod.HIERARCHY, ineffective: true });
+    expect(steps[1]).toMatchObject({
+      method: VisionMethod.VISION_TAGGING,
+      screenChanged: true,
+    });
+    expect(llm.generateActionWithVisionTagging).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,8 +1,9 @@
 /**
- * Tests for gesture actions (double tap, pinch, zoom)
+ * Tests for gesture actions (tap, swipe, long press, double tap, pinch, zoom)
  */
 
 import { MobileAgent } from "../src/MobileAgent";
+import { GestureEngine } from "../src/gestures/GestureEngine";
 import { ActionType } from "../src/types";
 
 const makeAgent = () => {
@@ -12,7 +13,6 @@ const makeAgent = () => {
     capabilities: { platformName: "Android" },
     getWindowSize: jest.fn().mockResolvedValue({ width: 400, height: 800 }),
     takeScreenshot: jest.fn().mockResolvedValue("iVBORw0KGgo="),
-    touchAction: jest.fn().mockResolvedValue(undefined),
     performActions: jest.fn().mockResolvedValue(undefined),
     releaseActions: jest.fn().mockResolvedValue(undefined),
     pause: jest.fn().mockResolvedValue(undefined),
@@ -23,16 +23,29 @@ const makeAgent = () => {
 };
 
 describe("Gesture actions", () => {
-  it("double tap uses two taps", async () => {
+  it("double tap sends both taps in one pointer sequence", async () => {
     const { agent, driver } = makeAgent();
     await agent.startSession();
     const step = await agent.executeAction(ActionType.DOUBLE_TAP, undefined, {
       coordinates: { x: 100, y: 200 },
     });
-    expect(driver.touchAction).toHaveBeenCalledTimes(2);
+    expect(driver.performActions).toHaveBeenCalledTimes(1);
+    const [[pointer]] = driver.performActions.mock.calls[0];
+    const downs = pointer.actions.filter((a: any) => a.type === "pointerDown");
+    expect(downs).toHaveLength(2);
     expect(step.success).toBe(true);
   });
 
+  it("click and swipe go through W3C actions", async () => {
+    const { agent, driver } = makeAgent();
+    await agent.startSession();
+    await agent.executeAction(ActionType.CLICK, undefined, { coordinates: { x: 10, y: 20 } });
+    await agent.executeAction(ActionType.SWIPE, undefined, { direction: "up" });
+    await agent.executeAction(ActionType.LONG_PRESS, undefined, { coordinates: { x: 5, y: 5 } });
+    expect(driver.performActions).toHaveBeenCalledTimes(3);
+    expect(driver.releaseActions).toHaveBeenCalledTimes(3);
+  });
+
   it("pinch uses performActions", async () => {
     const { agent, driver } = makeAgent();
     await agent.startSession();
@@ -55,3 +68,60 @@ describe("Gesture actions", () => {
     expect(step.success).toBe(true);
   });
 });
+
+describe("GestureEngine", () => {
+  const makeDriver = (): any => ({
+    performActions: jest.fn().mockResolvedValue(undefined),
+    releaseActions: jest.fn().mockResolvedValue(undefined),
+  });
+
+  it("taps with the configured press duration", async () => {
+    const driver = makeDriver();
+    await new GestureEngine(driver, { tapDurationMs: 80 }).tap({ x: 10, y: 20 });
+
+    const [[pointer]] = driver.performActions.mock.calls[0];
+    expect(pointer.parameters.pointerType).toBe("touch");
+    expect(pointer.actions).toEqual([
+      { type: "pointerMove", duration: 0, x: 10, y: 20, origin: "viewport" },
+      { type: "pointerDown", button: 0 },
+      { type: "pause", duration: 80 },
+      { type: "pointerUp", button: 0 },
+    ]);
+  });
+
+  it("derives swipe duration from velocity unless a duration is set", async () => {
+    const driver = makeDriver();
+    const engine = new GestureEngine(driver, { swipeVelocity: 1000 });
+
+    await engine.swipe({ x: 0, y: 600 }, { x: 0, y: 100 });
+    const slow = driver.performActions.mock.calls[0][0][0].actions[3];
+    expect(slow).toMatchObject({ type: "pointerMove", duration: 500, x: 0, y: 100 });
+
+    await engine.swipe({ x: 0, y: 600 }, { x: 0, y: 100 }, { swipeDurationMs: 200 });
+    const fixed = driver.performActions.mock.calls[1][0][0].actions[3];
+    expect(fixed.duration).toBe(200);
+  });
+
+  it("long press holds for the configured duration", async () => {
+    const driver = makeDriver();
+    await new GestureEngine(driver).longPress({ x: 1, y: 1 }, { longPressDurationMs: 1500 });
+
+    const [[pointer]] = driver.performActions.mock.calls[0];
+    expect(pointer.actions[2]).toEqual({ type: "pause", duration: 1500 });
+  });
+
+  it("uses one pointer per finger for pinch and zoom", async () => {
+    const driver = makeDriver();
+    const engine = new GestureEngine(driver, { fingers: 3, pinchDistance: 50 });
+
+    await engine.zoom({ x: 200, y: 200 });
+    const pointers = driver.performActions.mock.calls[0][0];
+    expect(pointers.map((p: any) => p.id)).toEqual(["finger1", "finger2", "finger3"]);
+
+    // Each finger ends pinchDistance away from the center
+    for (const pointer of pointers) {
+      const end = pointer.actions[3];
+      expect(Math.hypot(end.x - 200, end.y - 200)).toBeCloseTo(50, 0);
+    }
+  });
+});
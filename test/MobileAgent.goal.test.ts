@@ -0,0 +1,182 @@
+/**
+ * Tests for goal-oriented multi-step execution
+ */
+
+import { MobileAgent } from "../src/MobileAgent";
+import { NeedInputError, TaskFailedError } from "../src/errors";
+import { ActionType, GoalStatus } from "../src/types";
+
+const HIERARCHY = `<hierarchy>
+  <android.widget.Button text="Next" clickable="true" bounds="[0,0][100,100]"/>
+</hierarchy>`;
+
+const makeAgent = (config: { maxSteps?: number; timeoutSeconds?: number } = {}) => {
+  const driver: any = {
+    getPageSource: jest.fn().mockResolvedValue(HIERARCHY),
+    getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+    capabilities: { platformName: "Android" },
+    getWindowSize: jest.fn().mockResolvedValue({ width: 400, height: 800 }),
+    takeScreenshot: jest.fn().mockResolvedValue("iVBORw0KGgo="),
+    performActions: jest.fn().mockResolvedValue(undefined),
+    releaseActions: jest.fn().mockResolvedValue(undefined),
+    pause: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const agent = new MobileAgent({ driver, apiKey: "test-key", ...config }) as any;
+  const llm = { generateAction: jest.fn() };
+  agent.llm = llm;
+  return { agent, driver, llm };
+};
+
+const click = { action: "click", elementId: "1", reasoning: "Tap next", confidence: 0.9 };
+const done = { action: "done", reasoning: "Billing page is open", confidence: 0.9 };
+
+describe("Goal execution", () => {
+  it("loops until the LLM reports the goal as done", async () => {
+    const { agent, driver, llm } = makeAgent();
+    llm.generateAction
+      .mockResolvedValueOnce(click)
+      .mockResolvedValueOnce(click)
+      .mockResolvedValueOnce(done);
+
+    await agent.startSession();
+    const result = await agent.executeGoal("open the billing page");
+
+    expect(result.status).toBe(GoalStatus.COMPLETED);
+    expect(result.success).toBe(true);
+    expect(result.stepsTaken).toBe(3);
+    expect(driver.performActions).toHaveBeenCalledTimes(2);
+
+    const steps = agent.testResult.steps;
+    expect(steps).toHaveLength(3);
+    expect(steps[2].actionType).toBe(ActionType.DONE);
+    expect(steps[2].success).toBe(true);
+    expect(steps[0]).toMatchObject({ method: "hierarchy", reasoning: "Tap next", confidence: 0.9 });
+  });
+
+  it("stops when the step budget runs out", async () => {
+    const { agent, llm } = makeAgent({ maxSteps: 2 });
+    llm.generateAction.mockResolvedValue(click);
+
+    await agent.startSession();
+    const result = await agent.executeGoal("never finishes");
+
+    expect(result.status).toBe(GoalStatus.MAX_STEPS_EXCEEDED);
+    expect(result.success).toBe(false);
+    expect(result.stepsTaken).toBe(2);
+    expect(agent.testResult.steps).toHaveLength(2);
+  });
+
+  it("per-call options override the configured budget", async () => {
+    const { agent, llm } = makeAgent({ maxSteps: 10 });
+    llm.generateAction.mockResolvedValue(click);
+
+    await agent.startSession();
+    const result = await agent.executeGoal("never finishes", { maxSteps: 1 });
+
+    expect(result.status).toBe(GoalStatus.MAX_STEPS_EXCEEDED);
+    expect(llm.generateAction).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops when the deadline passes", async () => {
+    const { agent, llm } = makeAgent();
+    llm.generateAction.mockResolvedValue(click);
+
+    await agent.startSession();
+    const result = await agent.executeGoal("never finishes", { timeoutSeconds: 0 });
+
+    expect(result.status).toBe(GoalStatus.TIMED_OUT);
+    expect(result.stepsTaken).toBe(0);
+    expect(llm.generateAction).not.toHaveBeenCalled();
+  });
+
+  it("stops at the deadline while a step is still running", async () => {
+    const { agent, llm } = makeAgent();
+    let release: (value: typeof done) => void = () => undefined;
+    llm.generateAction.mockReturnValue(
+      new Promise((resolve) => {
+        release = resolve;
+      }),
+    );
+
+    await agent.startSession();
+    const result = await agent.executeGoal("slow step", { timeoutSeconds: 0.1 });
+
+    expect(result.status).toBe(GoalStatus.TIMED_OUT);
+    expect(result.stepsTaken).toBe(1);
+    expect(result.reason).toContain("during step 1");
+    expect(result.durationSeconds).toBeLessThan(1);
+    release(done);
+  });
+
+  it("reports an error status when no action can be determined", async () => {
+    const { agent, llm } = makeAgent();
+    llm.generateAction.mockRejectedValue(new Error("LLM unavailable"));
+
+    await agent.startSession();
+    const result = await agent.executeGoal("open settings");
+
+    expect(result.status).toBe(GoalStatus.ERROR);
+    expect(result.reason).toBe("LLM unavailable");
+    expect(agent.testResult.steps[0].success).toBe(false);
+  });
+
+  it("stops with a failed status when the LLM gives up", async () => {
+    const { agent, llm } = makeAgent();
+    llm.generateAction.mockResolvedValue({
+      action: "fail",
+      reason: "Account is locked",
+      reasoning: "Lock banner shown",
+    });
+
+    await agent.startSession();
+    const result = await agent.executeGoal("log in as alice");
+
+    expect(result.status).toBe(GoalStatus.FAILED);
+    expect(result.reason).toBe("Account is locked");
+    expect(agent.testResult.steps[0].actionType).toBe(ActionType.FAIL);
+    expect(agent.testResult.steps[0].success).toBe(false);
+  });
+});
+
+describe("Terminal actions in execute()", () => {
+  it("records done as a successful step without touching the device", async () => {
+    const { agent, driver, llm } = makeAgent();
+    llm.generateAction.mockResolvedValue(done);
+
+    await agent.startSession();
+    await agent.execute("open the billing page");
+
+    expect(driver.performActions).not.toHaveBeenCalled();
+    expect(agent.testResult.steps).toHaveLength(1);
+    expect(agent.testResult.steps[0].actionType).toBe(ActionType.DONE);
+    expect(agent.testResult.steps[0].success).toBe(true);
+  });
+
+  it("raises TaskFailedError for fail", async () => {
+    const { agent, llm } = makeAgent();
+    llm.generateAction.mockResolvedValue({
+      action: "fail",
+      reason: "No such option",
+      reasoning: "",
+    });
+
+    await agent.startSession();
+    await expect(agent.execute("enable teleport")).rejects.toBeInstanceOf(TaskFailedError);
+    expect(agent.testResult.steps).toHaveLength(1);
+    expect(agent.testResult.steps[0].error).toBe("No such option");
+  });
+
+  it("raises NeedInputError for need_input", async () => {
+    const { agent, llm } = makeAgent();
+    llm.generateAction.mockResolvedValue({
+      action: "need_input",
+      reason: "Password was not provided",
+      reasoning: "",
+    });
+
+    await agent.startSession();
+    await expect(agent.execute("log in")).rejects.toBeInstanceOf(NeedInputError);
+    expect(agent.testResult.steps[0].actionType).toBe(ActionType.NEED_INPUT);
+  });
+});
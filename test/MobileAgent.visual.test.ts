@@ -0,0 +1,160 @@
+/**
+ * Tests for visual regression baselines (matchScreenshot)
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import sharp from "sharp";
+import { MobileAgent } from "../src/MobileAgent";
+import { VerificationStatus } from "../src/types";
+import { BaselineStore } from "../src/visual/BaselineStore";
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * 400x800 screenshot (a 200x400 window at 2x) with black rectangles on white
+ */
+const screenshot = async (...rects: Rect[]): Promise<string> => {
+  const shapes = rects
+    .map((r) => `<rect x="${r.x}" y="${r.y}" width="${r.width}" height="${r.height}"/>`)
+    .join("");
+  const png = await sharp({
+    create: { width: 400, height: 800, channels: 4, background: "#ffffff" },
+  })
+    .composite([
+      {
+        input: Buffer.from(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="800">${shapes}</svg>`,
+        ),
+      },
+    ])
+    .png()
+    .toBuffer();
+  return png.toString("base64");
+};
+
+const page = `<hierarchy>
+  <android.widget.TextView text="12:30" resource-id="com.app:id/clock" bounds="[150,0][200,20]"/>
+  <android.widget.Button text="Sign in" clickable="true" bounds="[20,300][180,340]"/>
+</hierarchy>`;
+
+const button: Rect = { x: 40, y: 600, width: 320, height: 80 };
+const clockDigits: Rect = { x: 310, y: 4, width: 60, height: 30 };
+
+describe("BaselineStore", () => {
+  it("keeps safe names and gives sanitized ones a hash of the original", () => {
+    expect(BaselineStore.fileName("login")).toBe("login");
+    expect(BaselineStore.fileName("Login screen")).toMatch(/^Login_screen-[0-9a-f]{8}$/);
+    expect(BaselineStore.fileName("../..")).toMatch(/^screen-[0-9a-f]{8}$/);
+
+    const names = ["a/b", "a_b", "a b", "a:b"];
+    const files = new Set(names.map((name) => BaselineStore.fileName(name)));
+    expect(files.size).toBe(names.length);
+  });
+
+  it("does not let colliding names overwrite each other's baseline", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "baselines-"));
+    try {
+      const store = new BaselineStore(dir);
+      store.save("a/b", Buffer.from("first"));
+      store.save("a_b", Buffer.from("second"));
+
+      expect(store.load("a/b")?.toString()).toBe("first");
+      expect(store.load("a_b")?.toString()).toBe("second");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("matchScreenshot", () => {
+  let dir: string;
+  let current: string;
+  let agent: MobileAgent;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "visual-"));
+    current = await screenshot(button);
+    const driver: any = {
+      getPageSource: jest.fn().mockResolvedValue(page),
+      getCurrentActivity: jest.fn().mockResolvedValue("Login"),
+      capabilities: { platformName: "Android" },
+      getWindowSize: jest.fn().mockResolvedValue({ width: 200, height: 400 }),
+      takeScreenshot: jest.fn(async () => current),
+    };
+    agent = new MobileAgent({
+      driver,
+      apiKey: "test-key",
+      visualRegression: {
+        baselineDir: path.join(dir, "baselines"),
+        artifactsDir: path.join(dir, "artifacts"),
+      },
+    });
+    await agent.startSession();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("records a missing baseline, then passes on the same screen", async () => {
+    const first = await agent.matchScreenshot("Login screen");
+    expect(first).toMatchObject({
+      assertionType: "screenshot",
+      status: VerificationStatus.PASSED,
+      actualValue: "baseline recorded",
+    });
+    expect(
+      fs.existsSync(new BaselineStore(path.join(dir, "baselines")).pathFor("Login screen")),
+    ).toBe(true);
+
+    const second = await agent.matchScreenshot("Login screen");
+    expect(second).toMatchObject({ status: VerificationStatus.PASSED, actualValue: 0 });
+
+    const result = await agent.stopSession("success");
+    expect(result.verificationResults).toHaveLength(2);
+  });
+
+  it("fails on a changed screen and writes baseline, actual and diff images", async () => {
+    await agent.matchScreenshot("login");
+    current = await screenshot({ ...button, y: 500 });
+
+    const verification = await agent.matchScreenshot("login");
+
+    expect(verification.status).toBe(VerificationStatus.FAILED);
+    expect(verification.actualValue).toBeGreaterThan(0.05);
+    expect(verification.errorMessage).toContain("within [40,500][360,680]");
+    expect(fs.readdirSync(path.join(dir, "artifacts")).sort()).toEqual([
+      "login.actual.png",
+      "login.baseline.png",
+      "login.diff.png",
+    ]);
+  });
+
+  it("masks elements by locator, scaling their bounds to the screenshot", async () => {
+    await agent.matchScreenshot("login");
+    current = await screenshot(button, clockDigits);
+
+    expect((await agent.matchScreenshot("login")).status).toBe(VerificationStatus.FAILED);
+    const masked = await agent.matchScreenshot("login", { mask: [{ resourceId: "clock" }] });
+    expect(masked).toMatchObject({ status: VerificationStatus.PASSED, actualValue: 0 });
+  });
+
+  it("honours ignored regions, the allowed diff ratio and baseline updates", async () => {
+    await agent.matchScreenshot("login");
+    current = await screenshot(button, clockDigits);
+
+    const ignored = await agent.matchScreenshot("login", {
+      ignoreRegions: [{ x1: 300, y1: 0, x2: 400, y2: 40 }],
+    });
+    expect(ignored.status).toBe(VerificationStatus.PASSED);
+    expect((await agent.matchScreenshot("login", { maxDiffRatio: 0.01 })).status).toBe(
+      VerificationStatus.PASSED,
+    );
+
+    await agent.matchScreenshot("login", { updateBaseline: true });
+    const store = new BaselineStore(path.join(dir, "baselines"));
+    expect(store.load("login")?.toString("base64")).toBe(current);
+  });
+});
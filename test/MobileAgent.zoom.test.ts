@@ -0,0 +1,173 @@
+/**
+ * Tests for zoom-in refinement of grid and pure-vision picks
+ */
+
+import sharp from "sharp";
+import { MobileAgent } from "../src/MobileAgent";
+import { OpenAIProvider } from "../src/llm/OpenAIProvider";
+import { UIObserver } from "../src/observer/UIObserver";
+import type { UIState, ZoomRefinementConfig } from "../src/types";
+
+// 390x844 window captured at 3x
+const WINDOW = { width: 390, height: 844 };
+
+const makeDriver = async (): Promise<any> => {
+  const screenshot = (
+    await sharp({ create: { width: 1170, height: 2532, channels: 3, background: "#ffffff" } })
+      .png()
+      .toBuffer()
+  ).toString("base64");
+  return {
+    getPageSource: jest.fn().mockResolvedValue("<hierarchy/>"),
+    getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+    getWindowSize: jest.fn().mockResolvedValue(WINDOW),
+    takeScreenshot: jest.fn().mockResolvedValue(screenshot),
+    capabilities: { platformName: "Android" },
+  };
+};
+
+const inside = (point: { x: number; y: number }, area: any) =>
+  point.x >= area.x &&
+  point.x <= area.x + area.width &&
+  point.y >= area.y &&
+  point.y <= area.y + area.height;
+
+describe("UIObserver.captureZoomedGrid", () => {
+  it("crops around the point, clamped to the window, with cells in window coordinates", async () => {
+    const view = await new UIObserver().captureZoomedGrid(
+      await makeDriver(),
+      { x: 380, y: 10 },
+      { zoom: 3, gridSize: 5 },
+    );
+
+    expect(view.area.x).toBeCloseTo(260);
+    expect(view.area.y).toBe(0);
+    expect(view.area.width).toBeCloseTo(130);
+    expect(view.area.height).toBeCloseTo(844 / 3, 0);
+    expect(view.gridMap.size).toBe(25);
+    expect(view.gridMap.get("A1")).toEqual({ x: 273, y: 28 });
+    expect(inside(view.gridMap.get("E5") as any, view.area)).toBe(true);
+
+    const { width, height } = await sharp(Buffer.from(view.screenshotBase64, "base64")).metadata();
+    expect({ width, height }).toEqual({ width: 1170, height: 2532 });
+  });
+
+  it("zooms further into a previous view", async () => {
+    const observer = new UIObserver();
+    const driver = await makeDriver();
+    const first = await observer.captureZoomedGrid(driver, { x: 100, y: 400 });
+    const second = await observer.captureZoomedGrid(
+      driver,
+      { x: 100, y: 400 },
+      {
+        within: first.area,
+      },
+    );
+
+    expect(second.area.width).toBeCloseTo(first.area.width / 3, 0);
+    expect(second.area.x).toBeGreaterThanOrEqual(first.area.x);
+    expect(second.area.x + second.area.width).toBeLessThanOrEqual(
+      first.area.x + first.area.width + 1,
+    );
+    expect(inside({ x: 100, y: 400 }, second.area)).toBe(true);
+  });
+});
+
+describe("MobileAgent zoom refinement", () => {
+  const makeAgent = async (zoomRefinement: ZoomRefinementConfig) => {
+    const agent = new MobileAgent({
+      driver: await makeDriver(),
+      apiKey: "test-key",
+      visionConfig: { enabled: true, zoomRefinement },
+    }) as any;
+    const llm = {
+      generateActionWithGridOverlay: jest.fn().mockResolvedValue({
+        action: "click",
+        coordinates: { x: 195, y: 421 },
+        gridPosition: "E5",
+        reasoning: "Settings icon",
+        confidence: 0.8,
+      }),
+      refineTarget: jest.fn(async (state: UIState, _instruction: string, _target: string) => ({
+        found: true,
+        gridPosition: "B2",
+        coordinates: state.gridMap?.get("B2"),
+        confidence: 0.9,
+      })),
+    };
+    agent.llm = llm;
+    await agent.startSession();
+    return { agent, llm };
+  };
+
+  it("replaces the coarse grid pick with the refined point of each zoom step", async () => {
+    const { agent, llm } = await makeAgent({ enabled: true, steps: 2 });
+
+    const response = await agent.tryGridOverlayApproach("tap the settings icon");
+
+    expect(llm.refineTarget).toHaveBeenCalledTimes(2);
+    const [firstState, , target] = llm.refineTarget.mock.calls[0];
+    const secondState = llm.refineTarget.mock.calls[1][0];
+    expect(target).toBe("E5");
+    expect(firstState.gridMap?.size).toBe(25);
+    expect(response.coordinates).toEqual(secondState.gridMap?.get("B2"));
+    expect(response.coordinates).not.toEqual(firstState.gridMap?.get("B2"));
+  });
+
+  it("keeps the coarse point when the model is unsure", async () => {
+    const { agent, llm } = await makeAgent({ enabled: true, minConfidence: 0.95 });
+
+    const response = await agent.tryGridOverlayApproach("tap the settings icon");
+
+    expect(llm.refineTarget).toHaveBeenCalledTimes(1);
+    expect(response.coordinates).toEqual({ x: 195, y: 421 });
+  });
+
+  it("keeps the coarse point with a provider that cannot refine", async () => {
+    const { agent, llm } = await makeAgent({ enabled: true });
+    agent.llm = { generateActionWithGridOverlay: llm.generateActionWithGridOverlay };
+
+    const response = await agent.tryGridOverlayApproach("tap the settings icon");
+
+    expect(response.coordinates).toEqual({ x: 195, y: 421 });
+  });
+
+  it("is off by default", async () => {
+    const { agent, llm } = await makeAgent({});
+
+    await agent.tryGridOverlayApproach("tap the settings icon");
+
+    expect(llm.refineTarget).not.toHaveBeenCalled();
+  });
+});
+
+describe("BaseLLMProvider.refineTarget", () => {
+  it("asks for a cell with the refinement schema and maps it through the grid", async () => {
+    const provider = new OpenAIProvider("key");
+    const create = jest.fn().mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: '{"found":true,"grid_position":"C3","reasoning":"Icon","confidence":0.9}',
+          },
+        },
+      ],
+    });
+    (provider as any).client.chat.completions.create = create;
+    const state: UIState = {
+      activity: "Main",
+      elements: [],
+      timestamp: new Date(),
+      deviceInfo: {},
+      screenshotBase64: "iVBORw0KGgo=",
+      gridMap: new Map([["C3", { x: 120, y: 64 }]]),
+    };
+
+    const refined = await provider.refineTarget(state, "open settings", "gear icon", []);
+
+    expect(refined).toMatchObject({ found: true, coordinates: { x: 120, y: 64 }, confidence: 0.9 });
+    const request = create.mock.calls[0][0];
+    expect(request.response_format.json_schema.name).toBe("refine_target");
+    expect(request.messages[0].content[0].text).toContain("Target you picked: gear icon");
+  });
+});
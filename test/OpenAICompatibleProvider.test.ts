@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the OpenAI-compatible (self-hosted) provider
+ */
+
+import { MobileAgent } from "../src/MobileAgent";
+import { OpenAICompatibleProvider } from "../src/llm/OpenAICompatibleProvider";
+import { createLLMProvider } from "../src/llm/registry";
+
+const mockCompletion = (provider: OpenAICompatibleProvider, content: string) => {
+  const create = jest.fn().mockResolvedValue({ choices: [{ message: { content } }] });
+  (provider as any).client.chat.completions.create = create;
+  return create;
+};
+
+describe("OpenAICompatibleProvider", () => {
+  it("targets the configured base URL without an API key", () => {
+    const provider = new OpenAICompatibleProvider({
+      model: "qwen2.5-vl",
+      baseURL: "http://vllm.internal:8000/v1",
+    });
+
+    expect((provider as any).client.baseURL).toBe("http://vllm.internal:8000/v1");
+    expect(provider.supportsVision).toBe(false);
+  });
+
+  it("defaults to a local Ollama endpoint", () => {
+    const provider = new OpenAICompatibleProvider({ model: "llama3.1" });
+    expect((provider as any).client.baseURL).toBe("http://localhost:11434/v1");
+  });
+
+  it("requires a model name", () => {
+    expect(() => new OpenAICompatibleProvider({ model: "" })).toThrow(/requires a model/);
+  });
+
+  it("sends chat completions to the endpoint", async () => {
+    const provider = new OpenAICompatibleProvider({ model: "llama3.1" });
+    const create = mockCompletion(provider, '{"action":"click","element_id":"1"}');
+
+    const text = await provider.query("hello", "system");
+
+    expect(text).toContain("click");
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "llama3.1",
+        messages: [
+          { role: "system", content: "system" },
+          { role: "user", content: "hello" },
+        ],
+      }),
+      { signal: expect.any(AbortSignal) },
+    );
+  });
+
+  it("refuses vision queries unless vision is enabled", async () => {
+    const textOnly = new OpenAICompatibleProvider({ model: "llama3.1" });
+    await expect(textOnly.queryWithVision("p", "b64")).rejects.toThrow(/not configured for vision/);
+
+    const vision = new OpenAICompatibleProvider({ model: "llava", supportsVision: true });
+    const create = mockCompletion(vision, "ok");
+    await expect(vision.queryWithVision("p", "b64")).resolves.toBe("ok");
+    expect(create.mock.calls[0][0].messages[0].content[1].image_url.url).toBe(
+      "data:image/png;base64,b64",
+    );
+  });
+
+  it("is available through the registry and MobileAgent without an API key", () => {
+    const viaRegistry = createLLMProvider("openai-compatible", {
+      model: "llama3.1",
+      baseURL: "http://127.0.0.1:8080/v1",
+    });
+    expect(viaRegistry).toBeInstanceOf(OpenAICompatibleProvider);
+
+    const agent = new MobileAgent({
+      driver: { capabilities: {} } as any,
+      llmProvider: "openai-compatible",
+      model: "llama3.1",
+      llmOptions: { baseURL: "http://127.0.0.1:8080/v1" },
+    });
+    expect((agent as any).llm).toBeInstanceOf(OpenAICompatibleProvider);
+    expect((agent as any).llm.client.baseURL).toBe("http://127.0.0.1:8080/v1");
+  });
+});
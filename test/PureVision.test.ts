@@ -6,6 +6,13 @@ import { MobileAgent } from "../src/MobileAgent";
 import { OpenAIProvider } from "../src/llm/OpenAIProvider";
 import { VisionMethod } from "../src/types";
 
+// Answer the provider's next completion request with the given content
+const mockReply = (provider: OpenAIProvider, content: string) => {
+  (provider as any).client.chat.completions.create = jest
+    .fn()
+    .mockResolvedValue({ choices: [{ message: { content } }] });
+};
+
 describe("Pure Vision Functionality", () => {
   describe("Tier 4: Pure Vision Fallback", () => {
     it("should have pure vision config enabled by default", () => {
@@ -114,8 +121,9 @@ describe("Pure Vision Functionality", () => {
     it("should parse percentage-based coordinates", async () => {
       const provider = new OpenAIProvider("test-key", "gpt-4o");
 
-      // Mock the query response
-      provider.queryWithVision = jest.fn().mockResolvedValue(
+      // Mock the completion response
+      mockReply(
+        provider,
         JSON.stringify({
           element: "Login button",
           location: { x_percent: 50, y_percent: 85 },
@@ -144,7 +152,8 @@ describe("Pure Vision Functionality", () => {
     it("should handle different screen sizes correctly", async () => {
       const provider = new OpenAIProvider("test-key", "gpt-4o");
 
-      provider.queryWithVision = jest.fn().mockResolvedValue(
+      mockReply(
+        provider,
         JSON.stringify({
           element: "Settings icon",
           location: { x_percent: 90, y_percent: 10 },
@@ -171,7 +180,7 @@ describe("Pure Vision Functionality", () => {
     it("should handle parsing errors gracefully", async () => {
       const provider = new OpenAIProvider("test-key", "gpt-4o");
 
-      provider.queryWithVision = jest.fn().mockResolvedValue("invalid json");
+      mockReply(provider, "invalid json");
 
       const response = await provider.generateActionWithPureVision(
         "fake-base64",
@@ -188,7 +197,8 @@ describe("Pure Vision Functionality", () => {
     it("should handle missing location field", async () => {
       const provider = new OpenAIProvider("test-key", "gpt-4o");
 
-      provider.queryWithVision = jest.fn().mockResolvedValue(
+      mockReply(
+        provider,
         JSON.stringify({
           element: "Button",
           action: "click",
@@ -292,7 +302,8 @@ describe("Pure Vision Functionality", () => {
     it("should reject low confidence responses", async () => {
       const provider = new OpenAIProvider("test-key", "gpt-4o");
 
-      provider.queryWithVision = jest.fn().mockResolvedValue(
+      mockReply(
+        provider,
         JSON.stringify({
           element: "Uncertain button",
           location: { x_percent: 50, y_percent: 50 },
@@ -0,0 +1,140 @@
+/**
+ * Tests for the JUnit XML and HTML reporters
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { parseStringPromise } from "xml2js";
+import { HtmlReporter } from "../src/report/HtmlReporter";
+import { JUnitReporter } from "../src/report/JUnitReporter";
+import { ActionType, type TestResult, VerificationStatus, VisionMethod } from "../src/types";
+
+const makeResult = (): TestResult => ({
+  success: false,
+  task: "log in & check <profile>",
+  steps: [
+    {
+      actionType: ActionType.CLICK,
+      targetElementId: "3",
+      parameters: {},
+      description: "[hierarchy] Tap the login button",
+      method: VisionMethod.HIERARCHY,
+      reasoning: "Tap the login button",
+      confidence: 0.92,
+      timestamp: new Date("2024-01-01T00:00:00.000Z"),
+      success: true,
+      screenshotBefore: "QkVGT1JF",
+      screenshotAfter: "QUZURVI=",
+    },
+    {
+      actionType: ActionType.TAP,
+      parameters: { coordinates: { x: 10, y: 20 } },
+      description: "[grid-overlay] Tap the avatar",
+      method: VisionMethod.GRID_OVERLAY,
+      reasoning: "Tap the avatar",
+      confidence: 0.6,
+      timestamp: new Date("2024-01-01T00:00:02.500Z"),
+      success: false,
+      error: "Element has no bounds",
+    },
+  ],
+  verificationResults: [
+    {
+      name: "profile is shown",
+      description: "profile is shown",
+      assertionType: "llm_verification",
+      expectedValue: true,
+      actualValue: true,
+      status: VerificationStatus.PASSED,
+    },
+    {
+      name: "badge is red",
+      description: "badge is red",
+      assertionType: "llm_verification",
+      expectedValue: true,
+      actualValue: false,
+      status: VerificationStatus.FAILED,
+      errorMessage: "Badge is grey",
+    },
+  ],
+  startTime: new Date("2024-01-01T00:00:00.000Z"),
+  endTime: new Date("2024-01-01T00:00:04.000Z"),
+  durationSeconds: 4,
+  screenshots: [],
+  logs: [],
+  metadata: {},
+});
+
+describe("JUnitReporter", () => {
+  it("reports steps and verifications as test cases", async () => {
+    const xml = new JUnitReporter({ suiteName: "login" }).render(makeResult());
+    const parsed = await parseStringPromise(xml);
+
+    const root = parsed.testsuites;
+    expect(root.$).toMatchObject({ name: "login", tests: "4", failures: "2", errors: "0" });
+
+    const [steps, verifications] = root.testsuite;
+    expect(steps.$.name).toBe("login.steps");
+    expect(steps.properties[0].property[0].$.value).toBe("log in & check <profile>");
+    expect(steps.testcase).toHaveLength(2);
+    expect(steps.testcase[0].$).toMatchObject({
+      name: "1. click: Tap the login button",
+      time: "2.500",
+    });
+    expect(steps.testcase[0].failure).toBeUndefined();
+    expect(steps.testcase[0]["system-out"][0]).toContain("method: hierarchy");
+    expect(steps.testcase[1].$.time).toBe("1.500");
+    expect(steps.testcase[1].failure[0].$.message).toBe("Element has no bounds");
+
+    expect(verifications.$).toMatchObject({ tests: "2", failures: "1" });
+    expect(verifications.testcase[0].failure).toBeUndefined();
+    expect(verifications.testcase[1].failure[0].$.message).toBe("Badge is grey");
+  });
+
+  it("reports inconclusive verifications as skipped", async () => {
+    const result = makeResult();
+    result.verificationResults[0].status = VerificationStatus.INCONCLUSIVE;
+    result.verificationResults[0].errorMessage = "Confidence 0.5 is below the minimum of 0.7";
+
+    const parsed = await parseStringPromise(new JUnitReporter().render(result));
+    const verifications = parsed.testsuites.testsuite[1];
+
+    expect(verifications.$).toMatchObject({ tests: "2", failures: "1", skipped: "1" });
+    expect(verifications.testcase[0].skipped[0].$.message).toMatch(/^Inconclusive: Confidence/);
+  });
+});
+
+describe("HtmlReporter", () => {
+  it("renders a timeline with tier, reasoning, confidence and screenshots", () => {
+    const html = new HtmlReporter().render(makeResult());
+
+    expect(html).toContain("log in &amp; check &lt;profile&gt;");
+    expect(html).toContain('<span class="badge tier">hierarchy</span>');
+    expect(html).toContain('<span class="badge tier">grid-overlay</span>');
+    expect(html).toContain("confidence 92%");
+    expect(html).toContain('<p class="reasoning">Tap the avatar</p>');
+    expect(html).toContain('<p class="step-error">Element has no bounds</p>');
+    expect(html).toContain('src="data:image/png;base64,QkVGT1JF"');
+    expect(html).toContain('src="data:image/png;base64,QUZURVI="');
+    expect(html).toContain("Verifications: 1/2 passed");
+    expect(html).toContain("Badge is grey");
+  });
+
+  it("can leave screenshots out and writes to nested paths", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "report-"));
+    const file = path.join(dir, "reports", "index.html");
+
+    try {
+      new HtmlReporter({ title: "Nightly", includeScreenshots: false }).writeToFile(
+        makeResult(),
+        file,
+      );
+      const html = fs.readFileSync(file, "utf8");
+      expect(html).toContain("<title>Nightly</title>");
+      expect(html).not.toContain("data:image/png");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for XCUITest page-source parsing in UIObserver
+ */
+
+import { UIObserver } from "../src/observer/UIObserver";
+import { UIElementType } from "../src/types";
+
+const IOS_SOURCE = `<?xml version="1.0" encoding="UTF-8"?>
+<AppiumAUT>
+  <XCUIElementTypeApplication type="XCUIElementTypeApplication" name="Settings" label="Settings" enabled="true" visible="true" accessible="false" x="0" y="0" width="390" height="844">
+    <XCUIElementTypeWindow type="XCUIElementTypeWindow" enabled="true" visible="true" accessible="false" x="0" y="0" width="390" height="844">
+      <XCUIElementTypeTable type="XCUIElementTypeTable" enabled="true" visible="true" accessible="false" x="0" y="91" width="390" height="753">
+        <XCUIElementTypeCell type="XCUIElementTypeCell" name="com.apple.settings.wifi" label="Wi-Fi" enabled="true" visible="true" accessible="false" x="16" y="120" width="358" height="44">
+          <XCUIElementTypeStaticText type="XCUIElementTypeStaticText" name="Wi-Fi" label="Wi-Fi" value="Wi-Fi" enabled="true" visible="true" accessible="true" x="60" y="131" width="45" height="22"/>
+        </XCUIElementTypeCell>
+        <XCUIElementTypeSwitch type="XCUIElementTypeSwitch" name="airplane" label="Airplane Mode" value="1" enabled="true" visible="true" accessible="true" x="310" y="170" width="51" height="31"/>
+      </XCUIElementTypeTable>
+      <XCUIElementTypeSearchField type="XCUIElementTypeSearchField" name="Search" label="Search" value="bluetooth" enabled="true" visible="true" accessible="true" x="16" y="50" width="358" height="36"/>
+      <XCUIElementTypeButton type="XCUIElementTypeButton" name="Done" label="Done" enabled="false" visible="false" accessible="true" x="330" y="10" width="50" height="30"/>
+    </XCUIElementTypeWindow>
+  </XCUIElementTypeApplication>
+</AppiumAUT>`;
+
+const makeDriver = (overrides: Record<string, any> = {}): any => ({
+  getPageSource: jest.fn().mockResolvedValue(IOS_SOURCE),
+  getCurrentActivity: jest.fn().mockRejectedValue(new Error("Not supported on iOS")),
+  execute: jest.fn().mockResolvedValue({ bundleId: "com.apple.Preferences", name: "Settings" }),
+  capabilities: { platformName: "iOS" },
+  ...overrides,
+});
+
+describe("UIObserver iOS parsing", () => {
+  it("normalizes XCUIElementType nodes into UIElements", async () => {
+    const observer = new UIObserver();
+    const state = await observer.getUIState(makeDriver());
+
+    // AppiumAUT wrapper is not an element
+    expect(state.elements[0].className).toBe("XCUIElementTypeApplication");
+
+    const cell = state.elements.find((e) => e.className === "XCUIElementTypeCell");
+    expect(cell).toMatchObject({
+      text: "Wi-Fi",
+      resourceId: "com.apple.settings.wifi",
+      contentDesc: "Wi-Fi",
+      clickable: true,
+      bounds: { x1: 16, y1: 120, x2: 374, y2: 164 },
+    });
+  });
+
+  it("maps XCUITest types to SDK element types", async () => {
+    const observer = new UIObserver();
+    const state = await observer.getUIState(makeDriver());
+    const byClass = (type: string) => state.elements.find((e) => e.className === type);
+
+    expect(byClass("XCUIElementTypeStaticText")?.elementType).toBe(UIElementType.TEXT_VIEW);
+    expect(byClass("XCUIElementTypeTable")?.elementType).toBe(UIElementType.LIST_VIEW);
+    expect(byClass("XCUIElementTypeTable")?.scrollable).toBe(true);
+    expect(byClass("XCUIElementTypeButton")?.elementType).toBe(UIElementType.BUTTON);
+
+    const toggle = byClass("XCUIElementTypeSwitch");
+    expect(toggle?.elementType).toBe(UIElementType.TOGGLE);
+    expect(toggle?.checked).toBe(true);
+
+    const search = byClass("XCUIElementTypeSearchField");
+    expect(search?.elementType).toBe(UIElementType.EDIT_TEXT);
+    expect(search?.text).toBe("bluetooth");
+    expect(search?.focusable).toBe(true);
+  });
+
+  it("honors enabled and visible flags", async () => {
+    const observer = new UIObserver();
+    const state = await observer.getUIState(makeDriver());
+    const done = state.elements.find((e) => e.className === "XCUIElementTypeButton");
+
+    expect(done?.enabled).toBe(false);
+    expect(done?.visible).toBe(false);
+  });
+
+  it("reports the foreground bundle id instead of an activity", async () => {
+    const driver = makeDriver();
+    const observer = new UIObserver();
+    const state = await observer.getUIState(driver);
+
+    expect(state.activity).toBe("com.apple.Preferences");
+    expect(driver.execute).toHaveBeenCalledWith("mobile: activeAppInfo");
+    expect(driver.getCurrentActivity).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the application node when activeAppInfo is unavailable", async () => {
+    const driver = makeDriver({ execute: jest.fn().mockRejectedValue(new Error("unknown")) });
+    const observer = new UIObserver();
+    const state = await observer.getUIState(driver);
+
+    expect(state.activity).toBe("Settings");
+  });
+
+  it("detects XCUITest sources even without platform capabilities", async () => {
+    const driver = makeDriver({ capabilities: {} });
+    const observer = new UIObserver();
+    const state = await observer.getUIState(driver);
+
+    const cell = state.elements.find((e) => e.className === "XCUIElementTypeCell");
+    expect(cell?.bounds).toBeDefined();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for hiding the status bar, navigation bar and keyboard in LLM screenshots
+ */
+
+import sharp from "sharp";
+import { MobileAgent } from "../src/MobileAgent";
+import { UIObserver } from "../src/observer/UIObserver";
+import type { SystemRegionConfig } from "../src/types";
+
+// A 300x600 window captured at 2x
+const WINDOW = { width: 300, height: 600 };
+
+const whiteScreenshot = async () =>
+  (
+    await sharp({ create: { width: 600, height: 1200, channels: 3, background: "#ffffff" } })
+      .png()
+      .toBuffer()
+  ).toString("base64");
+
+const ANDROID_SOURCE = `<hierarchy>
+  <android.widget.FrameLayout class="android.widget.FrameLayout" bounds="[0,0][300,600]">
+    <android.widget.Button class="android.widget.Button" text="Send" clickable="true" bounds="[100,300][200,340]"/>
+    <android.view.View class="android.view.View" resource-id="android:id/statusBarBackground" bounds="[0,0][300,30]"/>
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+const IOS_SOURCE = `<AppiumAUT>
+  <XCUIElementTypeApplication type="XCUIElementTypeApplication" name="Chat" x="0" y="0" width="300" height="600">
+    <XCUIElementTypeButton type="XCUIElementTypeButton" name="Send" label="Send" x="100" y="300" width="100" height="40"/>
+    <XCUIElementTypeKeyboard type="XCUIElementTypeKeyboard" x="0" y="400" width="300" height="200">
+      <XCUIElementTypeKey type="XCUIElementTypeKey" name="q" label="q" x="0" y="420" width="30" height="40"/>
+    </XCUIElementTypeKeyboard>
+  </XCUIElementTypeApplication>
+</AppiumAUT>`;
+
+const makeDriver = async (
+  platform: "Android" | "iOS",
+  systemBars?: Record<string, any>,
+): Promise<any> => {
+  const screenshot = await whiteScreenshot();
+  return {
+    getPageSource: jest.fn().mockResolvedValue(platform === "iOS" ? IOS_SOURCE : ANDROID_SOURCE),
+    getCurrentActivity: jest.fn().mockResolvedValue("Chat"),
+    getWindowSize: jest.fn().mockResolvedValue(WINDOW),
+    takeScreenshot: jest.fn().mockResolvedValue(screenshot),
+    execute: jest.fn(async (command: string) => {
+      if (command === "mobile: getSystemBars" && systemBars) return systemBars;
+      throw new Error(`Unsupported: ${command}`);
+    }),
+    capabilities: { platformName: platform },
+  };
+};
+
+const pixel = async (base64: string, x: number, y: number) => {
+  const { data, info } = await sharp(Buffer.from(base64, "base64"))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const i = (y * info.width + x) * info.channels;
+  return { rgb: [data[i], data[i + 1], data[i + 2]], width: info.width, height: info.height };
+};
+
+const ANDROID_BARS = {
+  statusBar: { visible: true, x: 0, y: 0, width: 300, height: 24 },
+  navigationBar: { visible: true, x: 0, y: 560, width: 300, height: 40 },
+};
+
+describe("UIObserver system regions", () => {
+  it("leaves screenshots untouched by default", async () => {
+    const driver = await makeDriver("Android", ANDROID_BARS);
+    const state = await new UIObserver().getUIState(driver, "screenshot");
+
+    expect(state.systemRegions).toBeUndefined();
+    expect(driver.execute).not.toHaveBeenCalled();
+  });
+
+  it("masks the system bars reported by the driver, scaled to the screenshot", async () => {
+    const config: SystemRegionConfig = { mode: "mask", maskColor: "#ff0000" };
+    const state = await new UIObserver(config).getUIState(
+      await makeDriver("Android", ANDROID_BARS),
+      "screenshot",
+    );
+
+    expect(state.systemRegions?.map((r) => r.kind)).toEqual(["statusBar", "navigationBar"]);
+    expect(state.screenshotViewport).toBeUndefined();
+    const screenshot = state.screenshotBase64 as string;
+    expect((await pixel(screenshot, 300, 40)).rgb).toEqual([255, 0, 0]); // y=20 in the window
+    expect((await pixel(screenshot, 300, 60)).rgb).toEqual([255, 255, 255]);
+    expect((await pixel(screenshot, 300, 1130)).rgb).toEqual([255, 0, 0]);
+  });
+
+  it("falls back to the bar views in the hierarchy", async () => {
+    const observer = new UIObserver({ mode: "mask" });
+    const state = await observer.getUIState(await makeDriver("Android"), "screenshot");
+
+    expect(state.systemRegions).toEqual([
+      { kind: "statusBar", bounds: { x1: 0, y1: 0, x2: 300, y2: 30 } },
+    ]);
+  });
+
+  it("crops the bars off and keeps grid cells in window coordinates", async () => {
+    const state = await new UIObserver({ mode: "crop" }).getUIState(
+      await makeDriver("Android", ANDROID_BARS),
+      "grid",
+      10,
+    );
+
+    expect(state.screenshotViewport).toEqual({ x: 0, y: 24, width: 300, height: 536 });
+    const { width, height } = await pixel(state.screenshotBase64 as string, 0, 0);
+    expect({ width, height }).toEqual({ width: 600, height: 1072 });
+    // First row of cells starts below the status bar, last row ends above the navigation bar
+    expect(state.gridMap?.get("A1")).toEqual({ x: 15, y: 24 + 26 });
+    expect(state.gridMap?.get("J10")?.y).toBeLessThan(560);
+  });
+
+  it("crops the iOS keyboard and leaves its keys untagged", async () => {
+    const state = await new UIObserver({ mode: "crop", regions: ["keyboard"] }).getUIState(
+      await makeDriver("iOS"),
+      "tagged",
+    );
+
+    expect(state.systemRegions?.map((r) => r.kind)).toEqual(["keyboard"]);
+    expect(state.screenshotViewport).toEqual({ x: 0, y: 0, width: 300, height: 400 });
+    expect([...(state.tagMapping?.values() || [])].map((e) => e.text)).toEqual(["Send"]);
+  });
+});
+
+describe("MobileAgent pure vision with cropped system UI", () => {
+  it("maps coordinates on the cropped screenshot back onto the window", async () => {
+    const driver = await makeDriver("Android", ANDROID_BARS);
+    const agent = new MobileAgent({
+      driver,
+      apiKey: "test-key",
+      systemRegions: { mode: "crop" },
+    }) as any;
+    const generateActionWithPureVision = jest.fn(
+      async (
+        _screenshot: string,
+        _instruction: string,
+        size: { width: number; height: number },
+      ) => ({
+        action: "click",
+        coordinates: { x: size.width / 2, y: 0 },
+        reasoning: "Top of the content",
+        confidence: 0.9,
+      }),
+    );
+    agent.llm = { generateActionWithPureVision };
+
+    const response = await agent.tryPureVisionApproach("tap the top");
+
+    expect(generateActionWithPureVision.mock.calls[0][2]).toEqual({ width: 300, height: 536 });
+    expect(response.coordinates).toEqual({ x: 150, y: 24 });
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Tests for LLM token usage and cost accounting
+ */
+
+import { MobileAgent } from "../src/MobileAgent";
+import { BudgetExceededError } from "../src/errors";
+import { AnthropicProvider } from "../src/llm/AnthropicProvider";
+import { BaseLLMProvider } from "../src/llm/LLMProvider";
+import { OpenAIProvider } from "../src/llm/OpenAIProvider";
+import type { LLMUsage } from "../src/types";
+import { UsageTracker, estimateCost, findPricing } from "../src/usage/UsageTracker";
+
+const usage = (overrides: Partial<LLMUsage> = {}): LLMUsage => ({
+  model: "gpt-4o",
+  inputTokens: 1000,
+  outputTokens: 100,
+  images: 0,
+  latencyMs: 200,
+  ...overrides,
+});
+
+class ScriptedProvider extends BaseLLMProvider {
+  constructor(private responses: string[]) {
+    super();
+  }
+  async query(): Promise<string> {
+    this.reportUsage(usage({ model: "test-model" }));
+    return this.responses.shift() || "{}";
+  }
+  async queryWithVision(): Promise<string> {
+    this.reportUsage(usage({ model: "test-model", inputTokens: 3000, images: 1 }));
+    return this.responses.shift() || "{}";
+  }
+}
+
+describe("Pricing", () => {
+  it("matches exact names first, then the longest prefix", () => {
+    const pricing = {
+      "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+      "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    };
+
+    expect(findPricing("gpt-4o-2024-08-06", pricing)).toBe(pricing["gpt-4o"]);
+    expect(findPricing("gpt-4o-mini-2024-07-18", pricing)).toBe(pricing["gpt-4o-mini"]);
+    expect(findPricing("llama3.1", pricing)).toBeUndefined();
+  });
+
+  it("estimates cost from tokens and images", () => {
+    const pricing = { vision: { inputPerMillion: 1, outputPerMillion: 2, perImage: 0.01 } };
+
+    expect(estimateCost(usage({ model: "vision", images: 2 }), pricing)).toBeCloseTo(0.0212);
+    expect(estimateCost(usage({ model: "unknown" }), pricing)).toBeUndefined();
+  });
+});
+
+describe("UsageTracker", () => {
+  it("aggregates totals by tier and model and hands out pending usage once", () => {
+    const tracker = new UsageTracker({ local: { inputPerMillion: 0, outputPerMillion: 0 } });
+
+    tracker.record(usage(), "hierarchy");
+    tracker.record(usage({ images: 1 }), "vision-tagging");
+    tracker.record(usage({ model: "llama3.1" }), "hierarchy");
+
+    const pending = tracker.takePending();
+    expect(pending).toMatchObject({ calls: 3, inputTokens: 3000, images: 1, unpricedCalls: 1 });
+    expect(pending?.estimatedCostUsd).toBeCloseTo(0.007);
+    expect(tracker.takePending()).toBeUndefined();
+
+    const report = tracker.getReport();
+    expect(report.total.calls).toBe(3);
+    expect(report.byTier.hierarchy.calls).toBe(2);
+    expect(report.byTier["vision-tagging"].images).toBe(1);
+    expect(Object.keys(report.byModel)).toEqual(["gpt-4o", "llama3.1"]);
+  });
+});
+
+describe("Budget checks", () => {
+  it("refuses the request that would go over a cap", () => {
+    const tracker = new UsageTracker();
+    tracker.record(usage(), "hierarchy");
+
+    expect(() => tracker.checkBudget({ session: { maxCalls: 2 } })).not.toThrow();
+    expect(() => tracker.checkBudget({ session: { maxCalls: 1 } })).toThrow(
+      "LLM budget exceeded: session maxCalls of 1 reached (used 1)",
+    );
+    expect(() => tracker.checkBudget({ session: { maxTokens: 1100 } })).toThrow(/maxTokens/);
+    expect(() => tracker.checkBudget({ session: { maxImages: 0 } })).not.toThrow();
+    expect(() => tracker.checkBudget({ session: { maxImages: 0 } }, 1)).toThrow(/maxImages/);
+  });
+
+  it("applies per-execute caps only to the usage of the active run", () => {
+    const tracker = new UsageTracker();
+    const budget = { perExecute: { maxCalls: 1 } };
+    tracker.record(usage(), "hierarchy");
+    expect(() => tracker.checkBudget(budget)).not.toThrow();
+
+    tracker.startRun();
+    tracker.checkBudget(budget);
+    tracker.record(usage(), "hierarchy");
+    let error: any;
+    try {
+      tracker.checkBudget(budget);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({ scope: "execute", limit: "maxCalls", max: 1, used: 1 });
+
+    tracker.endRun();
+    expect(() => tracker.checkBudget(budget)).not.toThrow();
+  });
+});
+
+describe("Provider usage reporting", () => {
+  it("reports OpenAI completion usage", async () => {
+    const provider = new OpenAIProvider("key", "gpt-4o-mini");
+    (provider as any).client.chat.completions.create = jest.fn().mockResolvedValue({
+      choices: [{ message: { content: "ok" } }],
+      usage: { prompt_tokens: 812, completion_tokens: 40 },
+    });
+    const onUsage = jest.fn();
+    provider.onUsage = onUsage;
+
+    await provider.queryWithVision("prompt", "b64");
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        model: "gpt-4o-mini",
+        inputTokens: 812,
+        outputTokens: 40,
+        images: 1,
+        latencyMs: expect.any(Number),
+      }),
+    );
+  });
+
+  it("times only the attempt that succeeds, not the retry backoff", async () => {
+    const provider = new OpenAIProvider("key", "gpt-4o-mini");
+    (provider as any).client.chat.completions.create = jest
+      .fn()
+      .mockRejectedValueOnce(
+        Object.assign(new Error("429 error"), {
+          status: 429,
+          headers: { "retry-after-ms": "300" },
+        }),
+      )
+      .mockResolvedValueOnce({
+        choices: [{ message: { content: "ok" } }],
+        usage: { prompt_tokens: 10, completion_tokens: 1 },
+      });
+    const onUsage = jest.fn();
+    provider.onUsage = onUsage;
+
+    const startedAt = Date.now();
+    await provider.query("prompt");
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(300);
+    expect(onUsage.mock.calls[0][0].latencyMs).toBeLessThan(300);
+  });
+
+  it("reports Anthropic message usage", async () => {
+    const provider = new AnthropicProvider("key");
+    (provider as any).client.messages.create = jest.fn().mockResolvedValue({
+      content: [{ type: "text", text: "ok" }],
+      usage: { input_tokens: 500, output_tokens: 25 },
+    });
+    const onUsage = jest.fn();
+    provider.onUsage = onUsage;
+
+    await provider.query("prompt");
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ inputTokens: 500, outputTokens: 25, images: 0 }),
+    );
+  });
+});
+
+describe("MobileAgent usage accounting", () => {
+  const makeAgent = (llm: BaseLLMProvider, config: Record<string, any> = {}) => {
+    const driver: any = {
+      getPageSource: jest
+        .fn()
+        .mockResolvedValue(
+          '<hierarchy><android.widget.Button text="Next" clickable="true" bounds="[0,0][100,100]"/></hierarchy>',
+        ),
+      getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+      capabilities: { platformName: "Android" },
+      performActions: jest.fn().mockResolvedValue(undefined),
+      releaseActions: jest.fn().mockResolvedValue(undefined),
+      pause: jest.fn().mockResolvedValue(undefined),
+    };
+    return new MobileAgent({
+      driver,
+      llmProvider: llm,
+      pricing: { "test-model": { inputPerMillion: 1, outputPerMillion: 10 } },
+      ...config,
+    }) as any;
+  };
+
+  it("attaches usage to steps and verifications and totals it in metadata", async () => {
+    const llm = new ScriptedProvider([
+      '{"action":"click","element_id":"1","reasoning":"Tap next","confidence":0.9}',
+      '{"passed":true,"confidence":0.95}',
+    ]);
+    const forwarded = jest.fn();
+    llm.onUsage = forwarded;
+    const agent = makeAgent(llm);
+
+    await agent.startSession();
+    await agent.execute("tap next");
+    await agent.assertDetailed("next was tapped", { mode: "hierarchy" });
+    const result = await agent.stopSession("success");
+
+    expect(result.steps[0].usage).toMatchObject({ calls: 1, inputTokens: 1000 });
+    expect(result.steps[0].usage.estimatedCostUsd).toBeCloseTo(0.002);
+    expect(result.verificationResults[0].usage).toMatchObject({ calls: 1 });
+
+    const report = result.metadata.usage;
+    expect(report.total).toMatchObject({ calls: 2, inputTokens: 2000, outputTokens: 200 });
+    expect(report.byTier.hierarchy.calls).toBe(1);
+    expect(report.byTier.verification.calls).toBe(1);
+    expect(forwarded).toHaveBeenCalledTimes(2); // Listeners set before the agent still run
+  });
+
+  it("stops with a BudgetExceededError once the session cap is reached", async () => {
+    const click = '{"action":"click","element_id":"1","reasoning":"Tap next","confidence":0.9}';
+    const llm = new ScriptedProvider([click, click]);
+    const query = jest.spyOn(llm, "query");
+    const agent = makeAgent(llm, { budget: { session: { maxCalls: 1 } } });
+
+    await agent.startSession();
+    await agent.execute("tap next");
+    await expect(agent.execute("tap next again")).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(agent.assertDetailed("next was tapped")).rejects.toThrow(/maxCalls/);
+
+    expect(query).toHaveBeenCalledTimes(1);
+    const result = await agent.stopSession("failure");
+    expect(result.steps[1]).toMatchObject({
+      success: false,
+      error: expect.stringMatching(/^LLM budget/),
+    });
+    expect(result.verificationResults[0].status).toBe("error");
+  });
+
+  it("does not escalate to vision tiers beyond the per-execute image cap", async () => {
+    const llm = new ScriptedProvider([
+      '{"action":"click","element_id":"1","reasoning":"Maybe next","confidence":0.3}',
+    ]);
+    const vision = jest.spyOn(llm, "queryWithVision");
+    const agent = makeAgent(llm, { budget: { perExecute: { maxImages: 0 } } });
+
+    await agent.startSession();
+    await expect(agent.executeGoal("go to the next page")).rejects.toMatchObject({
+      scope: "execute",
+      limit: "maxImages",
+    });
+    expect(vision).not.toHaveBeenCalled();
+  });
+});
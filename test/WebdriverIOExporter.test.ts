@@ -0,0 +1,130 @@
+/**
+ * Tests for exporting recorded sessions as WebdriverIO specs
+ */
+
+import * as ts from "typescript";
+import { WebdriverIOExporter } from "../src/export/WebdriverIOExporter";
+import {
+  type ActionStep,
+  ActionType,
+  type TestResult,
+  type UIElement,
+  UIElementType,
+} from "../src/types";
+
+const element = (overrides: Partial<UIElement> = {}): UIElement => ({
+  elementId: "1",
+  text: "",
+  className: "android.widget.Button",
+  bounds: { x1: 0, y1: 100, x2: 200, y2: 300 },
+  elementType: UIElementType.BUTTON,
+  clickable: true,
+  scrollable: false,
+  focusable: true,
+  longClickable: false,
+  checked: false,
+  enabled: true,
+  visible: true,
+  ...overrides,
+});
+
+const step = (overrides: Partial<ActionStep>): ActionStep => ({
+  actionType: ActionType.CLICK,
+  parameters: {},
+  description: "[hierarchy] step",
+  timestamp: new Date(),
+  success: true,
+  ...overrides,
+});
+
+const result = (steps: ActionStep[]): TestResult => ({
+  success: true,
+  task: "log in",
+  steps,
+  verificationResults: [],
+  startTime: new Date(),
+  durationSeconds: 1,
+  screenshots: [],
+  logs: [],
+  metadata: {},
+});
+
+const syntaxErrors = (source: string) =>
+  ts.transpileModule(source, { reportDiagnostics: true }).diagnostics || [];
+
+describe("WebdriverIOExporter", () => {
+  const exporter = new WebdriverIOExporter();
+
+  it("prefers resource-id, then accessibility id, then text on Android", () => {
+    expect(
+      exporter.selectorFor(element({ resourceId: "app:id/login", text: "Log in" }), "android"),
+    ).toBe('android=new UiSelector().resourceId("app:id/login")');
+    expect(exporter.selectorFor(element({ contentDesc: "Login", text: "Log in" }), "android")).toBe(
+      "~Login",
+    );
+    expect(exporter.selectorFor(element({ text: 'Say "hi"' }), "android")).toBe(
+      'android=new UiSelector().text("Say \\"hi\\"")',
+    );
+    expect(exporter.selectorFor(element(), "android")).toBeUndefined();
+  });
+
+  it("uses accessibility ids and label predicates on iOS", () => {
+    expect(exporter.selectorFor(element({ resourceId: "loginButton" }), "ios")).toBe(
+      "~loginButton",
+    );
+    expect(exporter.selectorFor(element({ contentDesc: "Log in" }), "ios")).toBe(
+      '-ios predicate string:label == "Log in"',
+    );
+  });
+
+  it("emits a standalone spec with selectors and coordinate fallbacks", () => {
+    const source = exporter.export(
+      result([
+        step({
+          targetElement: element({ resourceId: "app:id/email" }),
+          actionType: ActionType.TYPE_TEXT,
+          parameters: { text: "user@example.com" },
+          description: "[hierarchy] Type the email",
+        }),
+        step({
+          parameters: { coordinates: { x: 50, y: 60 } },
+          description: "[grid-overlay] Tap the login button",
+        }),
+        step({ actionType: ActionType.SCROLL, parameters: { direction: "down" } }),
+        step({ actionType: ActionType.DONE, description: "[hierarchy] Logged in" }),
+      ]),
+    );
+
+    expect(source).toContain('import { $, driver } from "@wdio/globals";');
+    expect(source).toContain('it("log in", async () => {');
+    expect(source).toContain('await $("android=new UiSelector().resourceId(\\"app:id/email\\")")');
+    expect(source).toContain('.addValue("user@example.com");');
+    expect(source).toContain("// [grid-overlay] Tap the login button");
+    expect(source).toContain("await tapAt({ x: 50, y: 60 });");
+    expect(source).toContain('await swipeScreen("down", 0.3);');
+    expect(source).toContain("async function tapAt(");
+    expect(source).not.toContain("async function pinchAt(");
+    expect(source).not.toContain("Logged in");
+    expect(syntaxErrors(source)).toHaveLength(0);
+  });
+
+  it("skips failed steps and looks up element centers for gestures", () => {
+    const source = new WebdriverIOExporter({ platform: "ios", settleMs: 0 }).export(
+      result([
+        step({ success: false, description: "[hierarchy] Tap a missing button" }),
+        step({
+          actionType: ActionType.DOUBLE_TAP,
+          targetElement: element({ className: "XCUIElementTypeImage", resourceId: "photo" }),
+        }),
+        step({ actionType: ActionType.ZOOM, parameters: { coordinates: { x: 10, y: 20 } } }),
+      ]),
+    );
+
+    expect(source).toContain("// Skipped failed step: [hierarchy] Tap a missing button");
+    expect(source).toContain('await doubleTapAt(await centerOf("~photo"));');
+    expect(source).toContain("await pinchAt({ x: 10, y: 20 }, false);");
+    expect(source).toContain("async function tapAt("); // Needed by doubleTapAt
+    expect(source).not.toContain("driver.pause(1000)");
+    expect(syntaxErrors(source)).toHaveLength(0);
+  });
+});
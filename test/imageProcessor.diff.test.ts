@@ -0,0 +1,177 @@
+/**
+ * Unit tests for the image comparison utilities (pixel diff, pHash, SSIM)
+ */
+
+import sharp from "sharp";
+import {
+  diffImage,
+  hammingDistance,
+  perceptualHash,
+  pixelDiff,
+  ssim,
+} from "../src/utils/imageProcessor";
+
+type Rect = { x: number; y: number; width: number; height: number; fill?: string };
+
+/**
+ * PNG fixture: a plain background with solid rectangles drawn on it
+ */
+const fixture = async (
+  rects: Rect[] = [],
+  options: { width?: number; height?: number; gray?: number } = {},
+): Promise<Buffer> => {
+  const { width = 100, height = 200, gray = 255 } = options;
+  const shapes = rects
+    .map(
+      (r) =>
+        `<rect x="${r.x}" y="${r.y}" width="${r.width}" height="${r.height}" fill="${r.fill || "#000"}"/>`,
+    )
+    .join("");
+  return sharp({
+    create: { width, height, channels: 4, background: { r: gray, g: gray, b: gray, alpha: 1 } },
+  })
+    .composite([
+      {
+        input: Buffer.from(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes}</svg>`,
+        ),
+      },
+    ])
+    .png()
+    .toBuffer();
+};
+
+const square: Rect = { x: 10, y: 10, width: 20, height: 20 };
+
+describe("pixelDiff", () => {
+  it("finds no difference between identical images", async () => {
+    const image = await fixture([square]);
+
+    const result = await pixelDiff(image, image.toString("base64"));
+
+    expect(result).toMatchObject({ width: 100, height: 200, diffPixels: 0, diffRatio: 0 });
+    expect(result.changedRegion).toBeUndefined();
+  });
+
+  it("counts changed pixels and their bounding box", async () => {
+    const result = await pixelDiff(await fixture(), await fixture([square]));
+
+    expect(result.diffPixels).toBe(400);
+    expect(result.totalPixels).toBe(20000);
+    expect(result.diffRatio).toBeCloseTo(0.02);
+    expect(result.changedRegion).toEqual({ x1: 10, y1: 10, x2: 30, y2: 30 });
+  });
+
+  it("tolerates small color shifts up to the threshold", async () => {
+    const white = await fixture();
+    const offWhite = await fixture([], { gray: 245 });
+
+    expect((await pixelDiff(white, offWhite)).diffPixels).toBe(0);
+    expect((await pixelDiff(white, offWhite, { threshold: 0 })).diffRatio).toBe(1);
+  });
+
+  it("leaves ignored regions out of the comparison", async () => {
+    const result = await pixelDiff(await fixture(), await fixture([square]), {
+      ignoreRegions: [{ x1: 0, y1: 0, x2: 100, y2: 20 }],
+    });
+
+    expect(result.totalPixels).toBe(18000);
+    expect(result.diffPixels).toBe(200);
+    expect(result.changedRegion).toEqual({ x1: 10, y1: 20, x2: 30, y2: 30 });
+  });
+
+  it("scales the second image to the first one's size", async () => {
+    const result = await pixelDiff(
+      await fixture([{ x: 0, y: 0, width: 50, height: 200 }]),
+      await fixture([{ x: 0, y: 0, width: 100, height: 400 }], { width: 200, height: 400 }),
+    );
+
+    expect(result).toMatchObject({ width: 100, height: 200 });
+    expect(result.diffRatio).toBeLessThan(0.02);
+  });
+});
+
+describe("diffImage", () => {
+  it("paints differing pixels red over the faded first image", async () => {
+    const { image, result } = await diffImage(await fixture(), await fixture([square]));
+
+    expect(result.diffPixels).toBe(400);
+    const { data, info } = await sharp(Buffer.from(image, "base64"))
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    expect(info).toMatchObject({ width: 100, height: 200 });
+
+    const pixel = (x: number, y: number) => {
+      const i = (y * info.width + x) * info.channels;
+      return [data[i], data[i + 1], data[i + 2]];
+    };
+    expect(pixel(15, 15)).toEqual([255, 0, 0]);
+    const [r, g, b] = pixel(50, 100);
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+  });
+});
+
+describe("perceptualHash", () => {
+  it("keeps hashes close for a rescaled copy and far apart for different layouts", async () => {
+    // A header, a card and a button, in 100x200 units
+    const layout = (scale: number, offset = 0): Rect[] => [
+      { x: 0, y: 0, width: 100 * scale, height: 24 * scale, fill: "#1565c0" },
+      {
+        x: 10 * scale,
+        y: (40 + offset) * scale,
+        width: 55 * scale,
+        height: 70 * scale,
+        fill: "#888",
+      },
+      { x: 20 * scale, y: 160 * scale, width: 70 * scale, height: 20 * scale, fill: "#2e7d32" },
+    ];
+    const screen = await fixture(layout(1));
+    const rescaled = await fixture(layout(2), { width: 200, height: 400 });
+    const other = await fixture([
+      { x: 0, y: 150, width: 100, height: 50, fill: "#1565c0" },
+      { x: 50, y: 10, width: 45, height: 120, fill: "#888" },
+    ]);
+
+    const hash = await perceptualHash(screen);
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(hash, await perceptualHash(rescaled))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(hash, await perceptualHash(other))).toBeGreaterThan(16);
+  });
+
+  it("pins the hash of a known image, with half of the AC coefficients above the median", async () => {
+    const hash = await perceptualHash(
+      await fixture([
+        { x: 0, y: 0, width: 100, height: 24, fill: "#1565c0" },
+        { x: 10, y: 40, width: 55, height: 70, fill: "#888" },
+        { x: 20, y: 160, width: 70, height: 20, fill: "#2e7d32" },
+      ]),
+    );
+
+    expect(hash).toBe("be3748c1153e857a");
+    // 31 of the 63 AC coefficients lie above their median, plus the (bright) DC term
+    const setBits = [...hash].reduce((sum, digit) => sum + hammingDistance(digit, "0"), 0);
+    expect(setBits).toBe(32);
+  });
+
+  it("rejects hashes of different lengths", () => {
+    expect(hammingDistance("ff00", "0f00")).toBe(4);
+    expect(() => hammingDistance("ff", "fff")).toThrow("differ in length");
+  });
+});
+
+describe("ssim", () => {
+  it("scores identical images 1 and lower as more of the structure changes", async () => {
+    const base = await fixture([square]);
+    const small = await ssim(
+      base,
+      await fixture([square, { x: 60, y: 150, width: 10, height: 10 }]),
+    );
+    const large = await ssim(base, await fixture([{ x: 0, y: 0, width: 100, height: 100 }]));
+
+    expect(await ssim(base, base)).toBeCloseTo(1, 5);
+    expect(small).toBeLessThan(1);
+    expect(small).toBeGreaterThan(0.9);
+    expect(large).toBeLessThan(small);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for downscaling and re-encoding screenshots sent to vision models
+ */
+
+import sharp from "sharp";
+import { AnthropicProvider } from "../src/llm/AnthropicProvider";
+import { OpenAIProvider } from "../src/llm/OpenAIProvider";
+import { UIObserver } from "../src/observer/UIObserver";
+import { detectImageMimeType, encodeForVision } from "../src/utils/imageProcessor";
+
+// iPhone 14: 390x844 points captured at 1284x2778 pixels
+const LOGICAL = { width: 390, height: 844 };
+
+const highDpiScreenshot = async () =>
+  (
+    await sharp({
+      create: { width: 1284, height: 2778, channels: 4, background: "#3366cc" },
+    })
+      .png()
+      .toBuffer()
+  ).toString("base64");
+
+const makeDriver = (screenshot: string): any => ({
+  getPageSource: jest.fn().mockResolvedValue("<hierarchy/>"),
+  getCurrentActivity: jest.fn().mockResolvedValue("Main"),
+  getWindowSize: jest.fn().mockResolvedValue(LOGICAL),
+  takeScreenshot: jest.fn().mockResolvedValue(screenshot),
+  capabilities: { platformName: "Android" },
+});
+
+const size = (base64: string) => sharp(Buffer.from(base64, "base64")).metadata();
+
+describe("encodeForVision", () => {
+  it("downscales to the maximum long edge and re-encodes as JPEG", async () => {
+    const result = await encodeForVision(await highDpiScreenshot(), {
+      maxLongEdge: 1568,
+      format: "jpeg",
+      quality: 70,
+    });
+
+    expect(result).toMatchObject({ width: 725, height: 1568, mimeType: "image/jpeg" });
+    expect(result.scale).toBeCloseTo(1568 / 2778, 5);
+    expect(detectImageMimeType(result.image)).toBe("image/jpeg");
+    expect(await size(result.image)).toMatchObject({ format: "jpeg", width: 725, height: 1568 });
+  });
+
+  it("keeps smaller images at their size", async () => {
+    const result = await encodeForVision(await highDpiScreenshot(), {
+      maxLongEdge: 4000,
+      format: "webp",
+    });
+
+    expect(result).toMatchObject({ width: 1284, height: 2778, scale: 1, mimeType: "image/webp" });
+    expect(detectImageMimeType(result.image)).toBe("image/webp");
+  });
+
+  it("recognizes data URLs and defaults to PNG", () => {
+    expect(detectImageMimeType("data:image/jpeg;base64,AAAA")).toBe("image/jpeg");
+    expect(detectImageMimeType("iVBORw0KGgo=")).toBe("image/png");
+    expect(detectImageMimeType("not an image")).toBe("image/png");
+  });
+});
+
+describe("UIObserver screenshot encoding", () => {
+  it("resizes the grid screenshot without moving the logical cell centers", async () => {
+    const screenshot = await highDpiScreenshot();
+    const full = await new UIObserver().getUIState(makeDriver(screenshot), "grid", 10);
+    const encoded = await new UIObserver({}, { maxLongEdge: 1024, format: "jpeg" }).getUIState(
+      makeDriver(screenshot),
+      "grid",
+      10,
+    );
+
+    expect(await size(encoded.screenshotBase64 as string)).toMatchObject({
+      format: "jpeg",
+      height: 1024,
+    });
+    expect(encoded.gridMap).toEqual(full.gridMap);
+    expect(encoded.gridMap?.get("E5")).toEqual({ x: 175, y: 379 });
+  });
+});
+
+describe("Providers with re-encoded screenshots", () => {
+  it("label the image with its actual format", async () => {
+    const { image } = await encodeForVision(await highDpiScreenshot(), {
+      maxLongEdge: 512,
+      format: "jpeg",
+    });
+
+    const openai = new OpenAIProvider("key");
+    const create = jest.fn().mockResolvedValue({ choices: [{ message: { content: "ok" } }] });
+    (openai as any).client.chat.completions.create = create;
+    await openai.queryWithVision("describe", image);
+    const [, imagePart] = create.mock.calls[0][0].messages[0].content;
+    expect(imagePart.image_url.url).toMatch(/^data:image\/jpeg;base64,\/9j\//);
+
+    const anthropic = new AnthropicProvider("key");
+    const messages = jest.fn().mockResolvedValue({
+      content: [{ type: "text", text: "ok" }],
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+    (anthropic as any).client.messages.create = messages;
+    await anthropic.queryWithVision("describe", image);
+    expect(messages.mock.calls[0][0].messages[0].content[1].source.media_type).toBe("image/jpeg");
+  });
+
+  it("convert pure-vision percentages to window coordinates whatever the image size", async () => {
+    const { image } = await encodeForVision(await highDpiScreenshot(), { maxLongEdge: 512 });
+    const provider = new OpenAIProvider("key");
+    (provider as any).client.chat.completions.create = jest.fn().mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content:
+              '{"action":"click","element":"Menu","location":{"x_percent":50,"y_percent":25},"reasoning":"Menu","confidence":0.8}',
+          },
+        },
+      ],
+    });
+
+    const response = await provider.generateActionWithPureVision(image, "open menu", LOGICAL, []);
+
+    expect(response.coordinates).toEqual({ x: 195, y: 211 });
+  });
+});
@@ -5,7 +5,34 @@
 import sharp from "sharp";
 import { UIObserver } from "../src/observer/UIObserver";
 import { type UIElement, UIElementType } from "../src/types";
-import { overlayNumericTags } from "../src/utils/imageProcessor";
+import { type ImageRegion, overlayNumericTags } from "../src/utils/imageProcessor";
+
+const makeElement = (id: string, bounds: UIElement["bounds"], text = ""): UIElement => ({
+  elementId: id,
+  text,
+  resourceId: "",
+  className: "android.view.View",
+  contentDesc: "",
+  bounds,
+  elementType: text ? UIElementType.BUTTON : UIElementType.UNKNOWN,
+  clickable: true,
+  scrollable: false,
+  focusable: true,
+  longClickable: false,
+  checked: false,
+  enabled: true,
+  visible: true,
+});
+
+const solidImage = async (width: number, height: number, background: string) =>
+  (
+    await sharp({ create: { width, height, channels: 3, background } })
+      .png()
+      .toBuffer()
+  ).toString("base64");
+
+const overlaps = (a: ImageRegion, b: ImageRegion) =>
+  Math.min(a.x2, b.x2) > Math.max(a.x1, b.x1) && Math.min(a.y2, b.y2) > Math.max(a.y1, b.y1);
 
 describe("Numeric Tagging Overlay", () => {
   it("should overlay numeric tags and map clickable elements", async () => {
@@ -103,25 +130,16 @@ describe("Numeric Tagging Overlay", () => {
     expect(meta.width).toBe(400);
     expect(meta.height).toBe(800);
 
-    // Sample pixel near center of e1 and expect red overlay dominance
-    const centerX = Math.floor((50 + 150) / 2);
-    const centerY = Math.floor((100 + 150) / 2);
-    const raw = await sharp(buf).raw().ensureAlpha().toBuffer({ resolveWithObject: true });
-    const width = meta.width || 400;
-    const sampleRadius = 3;
-    let redDominant = false;
-    for (let dy = -sampleRadius; dy <= sampleRadius && !redDominant; dy++) {
-      for (let dx = -sampleRadius; dx <= sampleRadius && !redDominant; dx++) {
-        const x = Math.min(Math.max(centerX + dx, 0), width - 1);
-        const y = Math.min(Math.max(centerY + dy, 0), (meta.height || 800) - 1);
-        const idx = (y * width + x) * 4;
-        const r = raw.data[idx];
-        const g = raw.data[idx + 1];
-        const b = raw.data[idx + 2];
-        if (r > g && r > b) redDominant = true;
-      }
-    }
-    expect(redDominant).toBe(true);
+    // The label sits at a corner of e1 and its outline is drawn on e1's edge,
+    // leaving the center (where its text is) uncovered
+    const raw = await sharp(buf).raw().toBuffer({ resolveWithObject: true });
+    const rgbAt = (x: number, y: number) => {
+      const idx = (y * raw.info.width + x) * raw.info.channels;
+      return [raw.data[idx], raw.data[idx + 1], raw.data[idx + 2]];
+    };
+    expect(rgbAt(100, 125)).toEqual([255, 255, 255]);
+    const [r, g, b] = rgbAt(51, 125);
+    expect(r > g && r > b).toBe(true);
   });
 
   it("UIObserver should populate tagMapping in tagged mode", async () => {
@@ -168,3 +186,78 @@ describe("Numeric Tagging Overlay", () => {
     expect(elem.clickable).toBe(true);
   });
 });
+
+describe("Numeric tag placement", () => {
+  it("keeps labels of a dense list apart, sized to the screenshot scale", async () => {
+    // 20 rows of 24pt on a 200x480 window captured at 3x
+    const rows = Array.from({ length: 20 }, (_, i) =>
+      makeElement(`row${i}`, { x1: 0, y1: i * 24, x2: 200, y2: (i + 1) * 24 }, `Row ${i}`),
+    );
+
+    const { mapping, labels } = await overlayNumericTags(
+      await solidImage(600, 1440, "#ffffff"),
+      rows,
+      {
+        logicalWidth: 200,
+        logicalHeight: 480,
+      },
+    );
+
+    expect(mapping.size).toBe(20);
+    const boxes = [...labels.values()];
+    for (let i = 0; i < boxes.length; i++) {
+      for (let j = i + 1; j < boxes.length; j++) {
+        expect(overlaps(boxes[i], boxes[j])).toBe(false);
+      }
+    }
+    // Label of row 5 lies on row 5, scaled to pixels, and is about 13pt tall
+    const label = labels.get(6) as ImageRegion;
+    expect(label.y1).toBeGreaterThanOrEqual(5 * 24 * 3);
+    expect(label.y2).toBeLessThanOrEqual(6 * 24 * 3);
+    expect(label.y2 - label.y1).toBeGreaterThanOrEqual(39);
+  });
+
+  it("picks label colors that stand out from the pixels underneath", async () => {
+    const { image, labels } = await overlayNumericTags(await solidImage(200, 200, "#ffffff"), [
+      makeElement("a", { x1: 20, y1: 40, x2: 180, y2: 80 }, "OK"),
+    ]);
+    const dark = await overlayNumericTags(await solidImage(200, 200, "#101010"), [
+      makeElement("a", { x1: 20, y1: 40, x2: 180, y2: 80 }, "OK"),
+    ]);
+
+    const fillOf = async (base64: string, label: ImageRegion) => {
+      const { data, info } = await sharp(Buffer.from(base64, "base64"))
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      const idx = ((label.y1 + 3) * info.width + label.x1 + 3) * info.channels;
+      return data[idx] + data[idx + 1] + data[idx + 2];
+    };
+    expect(await fillOf(image, labels.get(1) as ImageRegion)).toBeLessThan(3 * 180);
+    expect(await fillOf(dark.image, dark.labels.get(1) as ImageRegion)).toBeGreaterThan(3 * 100);
+  });
+
+  it("caps the tags, preferring labeled leaves and tagging shared bounds once", async () => {
+    const container = makeElement("list", { x1: 0, y1: 0, x2: 400, y2: 800 });
+    const icons = Array.from({ length: 30 }, (_, i) =>
+      makeElement(`icon${i}`, { x1: 0, y1: i * 20, x2: 20, y2: i * 20 + 20 }),
+    );
+    const buttons = Array.from({ length: 5 }, (_, i) =>
+      makeElement(`button${i}`, { x1: 100, y1: i * 40, x2: 300, y2: i * 40 + 40 }, `Item ${i}`),
+    );
+    const wrapper = makeElement("wrapper", { x1: 100, y1: 0, x2: 300, y2: 40 });
+
+    const { mapping } = await overlayNumericTags(
+      await solidImage(400, 800, "#ffffff"),
+      [container, wrapper, ...icons, ...buttons],
+      { maxTags: 10 },
+    );
+
+    const ids = [...mapping.values()].map((e) => e.elementId);
+    expect(ids).toHaveLength(10);
+    expect(ids.filter((id) => id.startsWith("button"))).toHaveLength(5);
+    expect(ids).not.toContain("wrapper");
+    expect(ids).not.toContain("list");
+    // Tags keep the elements' order
+    expect(ids.slice(0, 5).every((id) => id.startsWith("icon"))).toBe(true);
+  });
+});